@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "auth_keys" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "keyId" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "sessionId" TEXT NOT NULL,
+
+    CONSTRAINT "auth_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auth_keys_sessionId_type_idx" ON "auth_keys"("sessionId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auth_keys_sessionId_type_keyId_key" ON "auth_keys"("sessionId", "type", "keyId");
+
+-- AddForeignKey
+ALTER TABLE "auth_keys" ADD CONSTRAINT "auth_keys_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "sessions"("sessionId") ON DELETE CASCADE ON UPDATE CASCADE;
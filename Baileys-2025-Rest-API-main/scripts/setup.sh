@@ -48,7 +48,6 @@ echo "📁 Creating directories..."
 mkdir -p logs
 mkdir -p uploads
 mkdir -p temp
-mkdir -p auth_sessions
 
 # Generate Prisma client
 echo "🗄️  Generating Prisma client..."
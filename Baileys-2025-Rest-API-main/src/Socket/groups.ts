@@ -319,7 +319,143 @@ export const makeGroupsSocket = (config: SocketConfig) => {
 		groupJoinApprovalMode: async(jid: string, mode: 'on' | 'off') => {
 			await groupQuery(jid, 'set', [ { tag: 'membership_approval_mode', attrs: { }, content: [ { tag: 'group_join', attrs: { state: mode } } ] } ])
 		},
-		groupFetchAllParticipating
+		groupFetchAllParticipating,
+		/**
+		 * create a community, WhatsApp creates its announcement group along with it
+		 * @param subject name of the community
+		 * @param description optional description of the community
+		 */
+		communityCreate: async(subject: string, description?: string) => {
+			const result = await groupQuery(
+				'@g.us',
+				'set',
+				[
+					{
+						tag: 'create',
+						attrs: { subject },
+						content: [
+							...(description ? [{
+								tag: 'description',
+								attrs: { id: generateMessageIDV2() },
+								content: [
+									{ tag: 'body', attrs: { }, content: Buffer.from(description, 'utf-8') }
+								]
+							}] : []),
+							{ tag: 'parent', attrs: { 'default_membership_approval_mode': 'request_required' } },
+							{ tag: 'allow_non_admin_sub_group_creation', attrs: { } },
+							{ tag: 'create_general_chat', attrs: { } }
+						]
+					}
+				]
+			)
+			return extractGroupMetadata(result)
+		},
+		/**
+		 * create a group inside a community
+		 */
+		communityCreateGroup: async(subject: string, participants: string[], communityJid: string) => {
+			const key = generateMessageIDV2()
+			const result = await groupQuery(
+				'@g.us',
+				'set',
+				[
+					{
+						tag: 'create',
+						attrs: {
+							subject,
+							key
+						},
+						content: [
+							...participants.map(jid => ({
+								tag: 'participant',
+								attrs: { jid }
+							})),
+							{ tag: 'linked_parent', attrs: { jid: communityJid } }
+						]
+					}
+				]
+			)
+			return extractGroupMetadata(result)
+		},
+		/**
+		 * link existing groups to a community, only admins of both can do so
+		 * @returns the groups that couldn't be linked along with the error code
+		 */
+		communityLinkGroups: async(communityJid: string, groupJids: string[]) => {
+			const result = await groupQuery(
+				communityJid,
+				'set',
+				[
+					{
+						tag: 'links',
+						attrs: { },
+						content: [
+							{
+								tag: 'link',
+								attrs: { 'link_type': 'sub_group' },
+								content: groupJids.map(jid => ({ tag: 'group', attrs: { jid } }))
+							}
+						]
+					}
+				]
+			)
+			const linkNode = getBinaryNodeChild(getBinaryNodeChild(result, 'links'), 'link')
+			return getBinaryNodeChildren(linkNode, 'group')
+				.filter(({ attrs }) => attrs.error)
+				.map(({ attrs }) => ({ jid: attrs.jid, status: attrs.error }))
+		},
+		/**
+		 * unlink groups from a community, they carry on as standalone groups
+		 */
+		communityUnlinkGroups: async(communityJid: string, groupJids: string[]) => {
+			await groupQuery(
+				communityJid,
+				'set',
+				[
+					{
+						tag: 'unlink',
+						attrs: { 'unlink_type': 'sub_group' },
+						content: groupJids.map(jid => ({ tag: 'group', attrs: { jid } }))
+					}
+				]
+			)
+		},
+		/**
+		 * the groups of a community, including its announcement group
+		 */
+		communityFetchLinkedGroups: async(communityJid: string) => {
+			const result = await groupQuery(communityJid, 'get', [{ tag: 'sub_groups', attrs: { } }])
+			const subGroupsNode = getBinaryNodeChild(result, 'sub_groups')
+			return getBinaryNodeChildren(subGroupsNode, 'group').map(groupNode => {
+				const { attrs } = groupNode
+				return {
+					id: attrs.id.includes('@') ? attrs.id : jidEncode(attrs.id, 'g.us'),
+					subject: attrs.subject,
+					creation: attrs.creation ? +attrs.creation : undefined,
+					owner: attrs.creator ? jidNormalizedUser(attrs.creator) : undefined,
+					size: attrs.size ? +attrs.size : undefined,
+					isCommunityAnnounce: !!getBinaryNodeChild(groupNode, 'default_sub_group')
+				}
+			})
+		},
+		/**
+		 * leave a community along with all its groups
+		 */
+		communityLeave: async(communityJid: string) => {
+			await groupQuery(
+				'@g.us',
+				'set',
+				[
+					{
+						tag: 'leave',
+						attrs: { },
+						content: [
+							{ tag: 'linked_groups', attrs: { 'parent_group_jid': communityJid } }
+						]
+					}
+				]
+			)
+		}
 	}
 }
 
@@ -0,0 +1,77 @@
+import { normalizeRecipients, parseRecipientsCsv, pickSendInterval, toRecipientJid } from '../Utils/campaign'
+
+describe('Campaign Tests', () => {
+
+	it('should read recipients & their variables from a CSV', () => {
+		const csv = 'name,phone,city\r\n"Doe, Jane",+1 555 010 9999,"New ""Big"" Apple"\r\n\r\nJohn,,Paris\n'
+		const { recipients, errors } = parseRecipientsCsv(csv)
+
+		expect(recipients).toEqual([
+			{ phoneNumber: '+1 555 010 9999', variables: { name: 'Doe, Jane', city: 'New "Big" Apple' } }
+		])
+		expect(errors).toEqual([{ line: 4, message: 'Missing phone number' }])
+	})
+
+	it('should leave blank cells out of the variables', () => {
+		const { recipients } = parseRecipientsCsv('phone,name,city\n5550109999,,Paris')
+
+		expect(recipients).toEqual([{ phoneNumber: '5550109999', variables: { city: 'Paris' } }])
+	})
+
+	it('should read semicolon separated files', () => {
+		const { recipients } = parseRecipientsCsv('phone;amount\n5550109999;"12,50"')
+
+		expect(recipients).toEqual([{ phoneNumber: '5550109999', variables: { amount: '12,50' } }])
+	})
+
+	it('should require a phone column', () => {
+		const { recipients, errors } = parseRecipientsCsv('name,city\nJane,Paris')
+
+		expect(recipients).toHaveLength(0)
+		expect(errors[0].line).toEqual(1)
+	})
+
+	it('should turn phone numbers into JIDs', () => {
+		expect(toRecipientJid('+1 (555) 010-9999')).toEqual('15550109999@s.whatsapp.net')
+		expect(toRecipientJid('15550109999@s.whatsapp.net')).toEqual('15550109999@s.whatsapp.net')
+		expect(toRecipientJid('123456789-123@g.us')).toBeUndefined()
+		expect(toRecipientJid('call me')).toBeUndefined()
+	})
+
+	it('should drop duplicate & invalid recipients', () => {
+		const { recipients, rejected, duplicates } = normalizeRecipients([
+			{ phoneNumber: '+1 555 010 9999', variables: { name: 'Jane' } },
+			{ phoneNumber: 'nope' },
+			{ phoneNumber: '15550109999@s.whatsapp.net', variables: { name: 'Jane again' } }
+		])
+
+		expect(recipients).toEqual([
+			{ jid: '15550109999@s.whatsapp.net', phoneNumber: '+1 555 010 9999', variables: { name: 'Jane' } }
+		])
+		expect(rejected).toEqual([{ position: 2, phoneNumber: 'nope', message: 'Invalid phone number' }])
+		expect(duplicates).toEqual(1)
+	})
+
+	it('should reject the recipients failing the extra check', () => {
+		const { recipients, rejected } = normalizeRecipients(
+			[
+				{ phoneNumber: '5550109999', variables: { name: 'Jane' } },
+				{ phoneNumber: '5550108888' }
+			],
+			input => (input.variables?.name ? undefined : 'Missing variables: name')
+		)
+
+		expect(recipients.map(recipient => recipient.jid)).toEqual(['5550109999@s.whatsapp.net'])
+		expect(rejected).toEqual([{ position: 2, phoneNumber: '5550108888', message: 'Missing variables: name' }])
+	})
+
+	it('should pick an interval within the bounds', () => {
+		for (let i = 0; i < 20; i++) {
+			const interval = pickSendInterval(1000, 2000)
+			expect(interval).toBeGreaterThanOrEqual(1000)
+			expect(interval).toBeLessThanOrEqual(2000)
+		}
+
+		expect(pickSendInterval(500, 100)).toEqual(500)
+	})
+})
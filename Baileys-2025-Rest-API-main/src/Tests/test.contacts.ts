@@ -0,0 +1,35 @@
+import { isFresh, normalizePhoneNumber } from '../Utils/contacts'
+
+describe('Contact Tests', () => {
+
+	it('should normalize phone numbers to E.164', () => {
+		expect(normalizePhoneNumber('+44 20 7946 0958')).toEqual({ e164: '+442079460958', jid: '442079460958@s.whatsapp.net' })
+		expect(normalizePhoneNumber('0044 (20) 7946-0958')?.e164).toEqual('+442079460958')
+		expect(normalizePhoneNumber('442079460958@s.whatsapp.net')?.e164).toEqual('+442079460958')
+		expect(normalizePhoneNumber('020 7946 0958', '44')?.e164).toEqual('+442079460958')
+		expect(normalizePhoneNumber('020 7946 0958', '+44')?.e164).toEqual('+442079460958')
+		expect(normalizePhoneNumber('+44 20 7946 0958', '1')?.e164).toEqual('+442079460958')
+		expect(normalizePhoneNumber('442079460958@s.whatsapp.net', '1')?.e164).toEqual('+442079460958')
+	})
+
+	it('should prefix national numbers of countries without a trunk prefix', () => {
+		expect(normalizePhoneNumber('(202) 555-0123', '1')).toEqual({ e164: '+12025550123', jid: '12025550123@s.whatsapp.net' })
+		expect(normalizePhoneNumber('202.555.0123', '+1')?.e164).toEqual('+12025550123')
+	})
+
+	it('should reject what cannot be a phone number', () => {
+		expect(normalizePhoneNumber('020 7946 0958')).toBeUndefined()
+		expect(normalizePhoneNumber('12345')).toBeUndefined()
+		expect(normalizePhoneNumber('+1234567890123456')).toBeUndefined()
+		expect(normalizePhoneNumber('call me')).toBeUndefined()
+		expect(normalizePhoneNumber('123456789@g.us')).toBeUndefined()
+	})
+
+	it('should tell when a cached value is stale', () => {
+		const now = Date.now()
+
+		expect(isFresh(new Date(now - 30 * 1000), 60, now)).toBe(true)
+		expect(isFresh(new Date(now - 61 * 1000), 60, now)).toBe(false)
+		expect(isFresh(null, 60, now)).toBe(false)
+	})
+})
@@ -0,0 +1,96 @@
+import type { GroupMetadata } from '../Types'
+import {
+	applyGroupUpdate,
+	applyParticipantsUpdate,
+	describeParticipantAdd,
+	groupSettingChanges,
+	inviteCodeOf,
+	isGroupAdmin,
+	summarizeParticipantAdds,
+	toInviteLink
+} from '../Utils/groups'
+
+describe('Group Tests', () => {
+
+	it('should take invite codes from links', () => {
+		expect(inviteCodeOf('https://chat.whatsapp.com/AbCdEf123')).toEqual('AbCdEf123')
+		expect(inviteCodeOf(' https://chat.whatsapp.com/AbCdEf123?mode=r_c ')).toEqual('AbCdEf123')
+		expect(inviteCodeOf('AbCdEf123')).toEqual('AbCdEf123')
+		expect(toInviteLink('AbCdEf123')).toEqual('https://chat.whatsapp.com/AbCdEf123')
+	})
+
+	it('should only change the given settings', () => {
+		expect(groupSettingChanges({})).toEqual([])
+		expect(groupSettingChanges({ announce: false, joinApprovalMode: true })).toEqual([
+			{ type: 'setting', setting: 'not_announcement' },
+			{ type: 'joinApprovalMode', mode: 'on' }
+		])
+		expect(groupSettingChanges({ restrict: true, memberAddMode: false, ephemeralDuration: 0 })).toEqual([
+			{ type: 'setting', setting: 'locked' },
+			{ type: 'memberAddMode', mode: 'admin_add' },
+			{ type: 'ephemeral', expiration: 0 }
+		])
+	})
+
+	const group: GroupMetadata = {
+		id: '123-456@g.us',
+		addressingMode: 'pn',
+		owner: '1@s.whatsapp.net',
+		subject: 'Members',
+		announce: false,
+		size: 2,
+		participants: [
+			{ id: '1@s.whatsapp.net', admin: 'superadmin' },
+			{ id: '2@s.whatsapp.net', admin: null }
+		]
+	}
+
+	it('should apply group updates to the cached metadata', () => {
+		const updated = applyGroupUpdate(group, { id: group.id, announce: true, subject: undefined, author: '1@s.whatsapp.net' })
+
+		expect(updated.announce).toBe(true)
+		expect(updated.subject).toEqual('Members')
+		expect(updated.author).toBeUndefined()
+		expect(updated.participants).toBe(group.participants)
+	})
+
+	it('should apply participant changes to the cached metadata', () => {
+		const added = applyParticipantsUpdate(group, { participants: ['2@s.whatsapp.net', '3@s.whatsapp.net'], action: 'add' })!
+		expect(added.participants.map(p => p.id)).toEqual(['1@s.whatsapp.net', '2@s.whatsapp.net', '3@s.whatsapp.net'])
+		expect(added.size).toEqual(3)
+
+		const promoted = applyParticipantsUpdate(added, { participants: ['3@s.whatsapp.net'], action: 'promote' })!
+		expect(promoted.participants[2].admin).toEqual('admin')
+
+		const demoted = applyParticipantsUpdate(promoted, { participants: ['1@s.whatsapp.net', '3@s.whatsapp.net'], action: 'demote' })!
+		expect(demoted.participants.map(p => p.admin)).toEqual(['superadmin', null, null])
+
+		const removed = applyParticipantsUpdate(demoted, { participants: ['2@s.whatsapp.net'], action: 'remove' })!
+		expect(removed.participants.map(p => p.id)).toEqual(['1@s.whatsapp.net', '3@s.whatsapp.net'])
+		expect(removed.size).toEqual(2)
+
+		expect(applyParticipantsUpdate(group, { participants: ['2@s.whatsapp.net'], action: 'modify' })).toBeUndefined()
+	})
+
+	it('should tell whether the session is an admin', () => {
+		expect(isGroupAdmin(group, ['1:12@s.whatsapp.net', undefined])).toBe(true)
+		expect(isGroupAdmin(group, ['2@s.whatsapp.net', '2@lid'])).toBe(false)
+		expect(isGroupAdmin(group, [undefined])).toBe(false)
+	})
+
+	it('should explain why a number could not be added', () => {
+		expect(describeParticipantAdd('200').status).toEqual('added')
+		expect(describeParticipantAdd('409').status).toEqual('already_member')
+		expect(describeParticipantAdd('408')).toEqual({ status: 'failed', reason: 'The number left the group recently and cannot be added back yet' })
+		expect(describeParticipantAdd('499')).toEqual({ status: 'failed', reason: 'WhatsApp refused to add the number (code 499)' })
+	})
+
+	it('should count the results of a bulk add', () => {
+		expect(summarizeParticipantAdds([
+			{ input: '+1 555 0100', jid: '15550100@s.whatsapp.net', status: 'added', code: '200', reason: 'Added to the group' },
+			{ input: '15550101', jid: '15550101@s.whatsapp.net', status: 'invited', code: '403', reason: 'Invited' },
+			{ input: 'abc', status: 'invalid', reason: 'Invalid phone number' },
+			{ input: '15550102', jid: '15550102@s.whatsapp.net', status: 'added', code: '200', reason: 'Added to the group' }
+		])).toEqual({ added: 2, invited: 1, already_member: 0, not_on_whatsapp: 0, invalid: 1, failed: 0 })
+	})
+})
@@ -0,0 +1,10 @@
+import { inlineContentDisposition } from '../Utils/http'
+
+describe('HTTP Tests', () => {
+
+	it('should serve files under their name', () => {
+		expect(inlineContentDisposition('my file.pdf')).toEqual(`inline; filename="my file.pdf"; filename*=UTF-8''my%20file.pdf`)
+		expect(inlineContentDisposition('reçu "mai".pdf')).toEqual(`inline; filename="re_u _mai_.pdf"; filename*=UTF-8''re%C3%A7u%20%22mai%22.pdf`)
+		expect(inlineContentDisposition("l'offre (1).pdf")).toEqual(`inline; filename="l'offre (1).pdf"; filename*=UTF-8''l%27offre%20%281%29.pdf`)
+	})
+})
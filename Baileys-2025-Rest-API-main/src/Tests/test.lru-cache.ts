@@ -0,0 +1,40 @@
+import { LRUCache } from '../Utils/lru-cache'
+
+describe('LRU Cache Tests', () => {
+
+	it('should evict the least recently used entry', () => {
+		const cache = new LRUCache(2)
+		cache.set('a', 1)
+		cache.set('b', 2)
+		// touch "a" so "b" becomes the oldest
+		expect(cache.get('a')).toEqual(1)
+
+		cache.set('c', 3)
+
+		expect(cache.size).toEqual(2)
+		expect(cache.get('b')).toBeUndefined()
+		expect(cache.get('a')).toEqual(1)
+		expect(cache.get('c')).toEqual(3)
+	})
+
+	it('should overwrite without growing', () => {
+		const cache = new LRUCache(2)
+		cache.set('a', 1)
+		cache.set('a', 2)
+
+		expect(cache.size).toEqual(1)
+		expect(cache.get('a')).toEqual(2)
+	})
+
+	it('should delete & flush entries', () => {
+		const cache = new LRUCache(5)
+		cache.set('a', 1)
+		cache.set('b', 2)
+
+		cache.del('a')
+		expect(cache.get('a')).toBeUndefined()
+
+		cache.flushAll()
+		expect(cache.size).toEqual(0)
+	})
+})
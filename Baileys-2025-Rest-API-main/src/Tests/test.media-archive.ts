@@ -0,0 +1,67 @@
+import {
+	mediaTypeOfContentType,
+	parseMediaArchivePolicy,
+	retentionFor,
+	shouldArchiveMedia,
+	signMediaAccess,
+	verifyMediaAccess
+} from '../Utils/mediaArchive'
+
+describe('Media Archive Tests', () => {
+
+	it('should archive nothing until enabled', () => {
+		const policy = parseMediaArchivePolicy(null)
+
+		expect(policy.enabled).toBe(false)
+		expect(shouldArchiveMedia(policy, { mediaType: 'document', size: 10, chatId: '123@s.whatsapp.net' })).toBe(false)
+	})
+
+	it('should filter by media type, size & chat', () => {
+		const policy = parseMediaArchivePolicy({
+			enabled: true,
+			mediaTypes: ['document', 'audio'],
+			maxSizeBytes: 1000,
+			groups: false,
+			excludeChats: ['999@s.whatsapp.net']
+		})
+		const media = { mediaType: 'document' as const, size: 500, chatId: '123@s.whatsapp.net' }
+
+		expect(shouldArchiveMedia(policy, media)).toBe(true)
+		expect(shouldArchiveMedia(policy, { ...media, mediaType: 'image' })).toBe(false)
+		expect(shouldArchiveMedia(policy, { ...media, size: 1001 })).toBe(false)
+		expect(shouldArchiveMedia(policy, { ...media, size: undefined })).toBe(false)
+		expect(shouldArchiveMedia(policy, { ...media, chatId: '123-456@g.us' })).toBe(false)
+		expect(shouldArchiveMedia(policy, { ...media, chatId: '999@s.whatsapp.net' })).toBe(false)
+
+		const onlyChats = parseMediaArchivePolicy({ enabled: true, chats: ['123@s.whatsapp.net'] })
+		expect(shouldArchiveMedia(onlyChats, { ...media, size: undefined })).toBe(true)
+		expect(shouldArchiveMedia(onlyChats, { ...media, chatId: '456@s.whatsapp.net' })).toBe(false)
+	})
+
+	it('should tell the media type of a message', () => {
+		expect(mediaTypeOfContentType('documentMessage')).toEqual('document')
+		expect(mediaTypeOfContentType('ptvMessage')).toEqual('video')
+		expect(mediaTypeOfContentType('conversation')).toBeUndefined()
+		expect(mediaTypeOfContentType(undefined)).toBeUndefined()
+	})
+
+	it('should only retain documents sent by customers', () => {
+		const receivedAt = new Date('2025-01-01T00:00:00Z')
+
+		expect(retentionFor({ mediaType: 'document', fromMe: false, receivedAt }, 7)).toEqual(new Date('2032-01-01T00:00:00Z'))
+		expect(retentionFor({ mediaType: 'document', fromMe: true, receivedAt }, 7)).toBeUndefined()
+		expect(retentionFor({ mediaType: 'image', fromMe: false, receivedAt }, 7)).toBeUndefined()
+	})
+
+	it('should only accept unexpired signatures of the asset', () => {
+		const now = Date.now()
+		const expires = Math.floor(now / 1000) + 60
+		const signature = signMediaAccess('asset1', expires, 'secret')
+
+		expect(verifyMediaAccess('asset1', expires, signature, 'secret', now)).toBe(true)
+		expect(verifyMediaAccess('asset2', expires, signature, 'secret', now)).toBe(false)
+		expect(verifyMediaAccess('asset1', expires, signature, 'other', now)).toBe(false)
+		expect(verifyMediaAccess('asset1', expires, 'abc', 'secret', now)).toBe(false)
+		expect(verifyMediaAccess('asset1', expires, signature, 'secret', now + 61 * 1000)).toBe(false)
+	})
+})
@@ -0,0 +1,115 @@
+import {
+	assetIdOf,
+	buildMessageContent,
+	buildVCard,
+	guessMimetype,
+	mediaTypeForMimetype
+} from '../Utils/messageContent'
+
+describe('Message Content Tests', () => {
+
+	it('should map a poll', () => {
+		const { content, errors } = buildMessageContent('poll', { name: 'Lunch?', values: ['Pizza', 'Sushi'] }, '123@s.whatsapp.net')
+
+		expect(errors).toHaveLength(0)
+		expect(content).toEqual({
+			poll: { name: 'Lunch?', values: ['Pizza', 'Sushi'], selectableCount: 1 }
+		})
+	})
+
+	it('should report every invalid field', () => {
+		const { content, errors } = buildMessageContent('location', { latitude: 120, longitude: 'east' }, '123@s.whatsapp.net')
+
+		expect(content).toBeUndefined()
+		expect(errors.map(error => error.field)).toEqual(['content.latitude', 'content.longitude'])
+	})
+
+	it('should build contact cards from a name & number', () => {
+		const { content, errors } = buildMessageContent(
+			'contact',
+			{ contacts: [{ fullName: 'Jane Doe', phoneNumber: '+1 (555) 010-9999' }] },
+			'123@s.whatsapp.net'
+		)
+
+		expect(errors).toHaveLength(0)
+		expect(content).toEqual({
+			contacts: {
+				displayName: undefined,
+				contacts: [{ displayName: 'Jane Doe', vcard: buildVCard({ fullName: 'Jane Doe', phoneNumber: '+1 (555) 010-9999' }) }]
+			}
+		})
+		expect(buildVCard({ fullName: 'Jane Doe', phoneNumber: '+1 (555) 010-9999' })).toContain('waid=15550109999:+15550109999')
+	})
+
+	it('should only fetch product images over http(s)', () => {
+		const product = { productId: '1', title: 'Mug', imageUrl: '/etc/passwd' }
+		const { content, errors } = buildMessageContent('product', { product, businessOwnerJid: '123@s.whatsapp.net' }, '456@s.whatsapp.net')
+
+		expect(content).toBeUndefined()
+		expect(errors).toEqual([{ field: 'content.product.imageUrl', message: 'must be an http(s) URL', value: '/etc/passwd' }])
+	})
+
+	it('should key reactions on the target chat', () => {
+		const { content } = buildMessageContent('reaction', { messageId: 'ABC', emoji: '👍' }, '123@s.whatsapp.net')
+
+		expect(content).toEqual({
+			react: { text: '👍', key: { remoteJid: '123@s.whatsapp.net', id: 'ABC', fromMe: false, participant: undefined } }
+		})
+	})
+
+	it('should only allow view once on media', () => {
+		const { errors } = buildMessageContent('text', { text: 'hi' }, '123@s.whatsapp.net', { viewOnce: true })
+
+		expect(errors).toEqual([expect.objectContaining({ field: 'options.viewOnce' })])
+	})
+
+	it('should tell a document mimetype from its name & make a preview', () => {
+		const { content } = buildMessageContent('document', {
+			url: 'https://example.com/invoices/1042.PDF?token=abc',
+			thumbnailUrl: 'https://example.com/invoices/1042.png'
+		}, '123@s.whatsapp.net')
+
+		expect(content).toEqual({
+			document: { url: 'https://example.com/invoices/1042.PDF?token=abc' },
+			mimetype: 'application/pdf',
+			thumbnail: { url: 'https://example.com/invoices/1042.png' }
+		})
+
+		const { errors } = buildMessageContent('document', { url: 'https://example.com/download' }, '123@s.whatsapp.net')
+		expect(errors).toEqual([expect.objectContaining({ field: 'content.mimetype' })])
+	})
+
+	it('should name the codec of voice notes', () => {
+		const media = Buffer.from('audio')
+		const { content } = buildMessageContent('audio', { mimetype: 'audio/ogg', ptt: true }, '123@s.whatsapp.net', { media })
+
+		expect(content).toEqual({ audio: media, mimetype: 'audio/ogg; codecs=opus', ptt: true })
+	})
+
+	it('should read data URLs with parameters', () => {
+		const base64 = `data:audio/ogg; codecs=opus;base64,${Buffer.from('audio').toString('base64')}`
+		const { content } = buildMessageContent('audio', { base64, mimetype: 'audio/ogg' }, '123@s.whatsapp.net')
+
+		expect(content).toEqual({ audio: Buffer.from('audio'), mimetype: 'audio/ogg' })
+	})
+
+	it('should send files by their mimetype', () => {
+		expect(guessMimetype('voice.opus')).toEqual('audio/ogg; codecs=opus')
+		expect(guessMimetype('archive')).toBeUndefined()
+		expect(mediaTypeForMimetype('video/mp4')).toEqual('video')
+		expect(mediaTypeForMimetype('application/zip')).toEqual('document')
+		expect(mediaTypeForMimetype(undefined)).toEqual('document')
+	})
+
+	it('should refer to library files as assets', () => {
+		const { content, errors } = buildMessageContent('document', { assetId: 'clx1', caption: 'Brochure' }, '123@s.whatsapp.net')
+
+		expect(errors).toHaveLength(0)
+		expect(content).toEqual({ document: { url: 'asset:clx1' }, caption: 'Brochure' })
+		expect(assetIdOf((content as any).document)).toEqual('clx1')
+		expect(assetIdOf({ url: 'https://example.com/asset:clx1' })).toBeUndefined()
+
+		const conflicting = buildMessageContent('image', { assetId: 'clx1', url: 'https://example.com/a.png' }, '123@s.whatsapp.net')
+		expect(conflicting.errors).toEqual([expect.objectContaining({ field: 'content.url' })])
+	})
+})
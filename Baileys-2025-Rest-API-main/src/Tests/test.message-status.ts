@@ -0,0 +1,34 @@
+import { proto } from '../../WAProto'
+import { getContentMessageType, isStatusAdvance, toDeliveryStatus } from '../Utils/messageStatus'
+
+describe('Message Status Tests', () => {
+
+	it('should map WhatsApp statuses', () => {
+		expect(toDeliveryStatus(proto.WebMessageInfo.Status.ERROR)).toEqual('FAILED')
+		expect(toDeliveryStatus(proto.WebMessageInfo.Status.SERVER_ACK)).toEqual('SENT')
+		expect(toDeliveryStatus(proto.WebMessageInfo.Status.DELIVERY_ACK)).toEqual('DELIVERED')
+		expect(toDeliveryStatus(proto.WebMessageInfo.Status.PLAYED)).toEqual('READ')
+		expect(toDeliveryStatus(undefined)).toBeUndefined()
+	})
+
+	it('should only move statuses forward', () => {
+		expect(isStatusAdvance('PENDING', 'SENT')).toBe(true)
+		expect(isStatusAdvance('PENDING', 'READ')).toBe(true)
+		expect(isStatusAdvance('READ', 'DELIVERED')).toBe(false)
+		expect(isStatusAdvance('SENT', 'SENT')).toBe(false)
+	})
+
+	it('should not let a failure undo a delivery', () => {
+		expect(isStatusAdvance('SENT', 'FAILED')).toBe(true)
+		expect(isStatusAdvance('DELIVERED', 'FAILED')).toBe(false)
+		// a late receipt proves the message went through
+		expect(isStatusAdvance('FAILED', 'DELIVERED')).toBe(true)
+		expect(isStatusAdvance('FAILED', 'SENT')).toBe(false)
+	})
+
+	it('should type outgoing content', () => {
+		expect(getContentMessageType({ text: 'hi' })).toEqual('TEXT')
+		expect(getContentMessageType({ image: { url: 'https://example.com/a.jpg' } })).toEqual('IMAGE')
+		expect(getContentMessageType({ poll: { name: 'Lunch?', values: ['Pizza', 'Sushi'] } })).toEqual('POLL')
+	})
+})
@@ -0,0 +1,24 @@
+import { mergePresence, typingPresenceFor } from '../Utils/presence'
+
+describe('Presence Tests', () => {
+
+	it('should keep the last seen time until a new one is given', () => {
+		const first = new Date('2025-01-01T10:00:00Z')
+		const offline = mergePresence(undefined, { lastKnownPresence: 'unavailable', lastSeen: 1735725600 }, first)
+
+		expect(offline).toEqual({ status: 'unavailable', lastSeen: new Date('2025-01-01T10:00:00Z'), updatedAt: first })
+
+		const later = new Date('2025-01-01T10:05:00Z')
+		expect(mergePresence(offline, { lastKnownPresence: 'composing' }, later)).toEqual({
+			status: 'composing',
+			lastSeen: new Date('2025-01-01T10:00:00Z'),
+			updatedAt: later
+		})
+	})
+
+	it('should record before voice notes & type before anything else', () => {
+		expect(typingPresenceFor({ audio: { url: './note.ogg' }, ptt: true })).toEqual('recording')
+		expect(typingPresenceFor({ audio: { url: './song.mp3' } })).toEqual('composing')
+		expect(typingPresenceFor({ text: 'hi' })).toEqual('composing')
+	})
+})
@@ -0,0 +1,133 @@
+import type { PrismaClient } from '@prisma/client'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { useMultiFileAuthState } from '../Utils/use-multi-file-auth-state'
+import { importMultiFileAuthState, usePrismaAuthState } from '../Utils/use-prisma-auth-state'
+
+/**
+ * in-memory stand-in for the session & auth key tables,
+ * implementing the queries the Prisma auth state makes
+ * */
+const makeMockPrisma = (sessionIds: string[]) => {
+	const sessions = new Map(sessionIds.map(sessionId => [sessionId, { authData: null as unknown }]))
+	const keys = new Map<string, { sessionId: string, type: string, keyId: string, value: unknown }>()
+	const keyOf = (sessionId: string, type: string, keyId: string) => `${sessionId}:${type}:${keyId}`
+
+	const prisma = {
+		session: {
+			findUnique: async({ where }) => sessions.get(where.sessionId) || null,
+			update: async({ where, data }) => Object.assign(sessions.get(where.sessionId)!, data)
+		},
+		authKey: {
+			findMany: async({ where }) => [...keys.values()].filter(row => (
+				row.sessionId === where.sessionId && row.type === where.type && where.keyId.in.includes(row.keyId)
+			)),
+			upsert: async({ where, update, create }) => {
+				const { sessionId, type, keyId } = where.sessionId_type_keyId
+				const row = keys.get(keyOf(sessionId, type, keyId))
+				keys.set(keyOf(sessionId, type, keyId), row ? { ...row, ...update } : create)
+			},
+			deleteMany: async({ where }) => {
+				for(const [key, row] of keys) {
+					if(
+						row.sessionId === where.sessionId
+						&& (!where.type || row.type === where.type)
+						&& (!where.keyId || where.keyId.in.includes(row.keyId))
+					) {
+						keys.delete(key)
+					}
+				}
+			}
+		},
+		$transaction: async(operations: Promise<unknown>[]) => Promise.all(operations)
+	}
+
+	return { prisma: prisma as unknown as PrismaClient, keys }
+}
+
+describe('Prisma Auth State Tests', () => {
+
+	it('should keep the creds & keys of a session across loads', async() => {
+		const { prisma } = makeMockPrisma(['s1'])
+
+		const { state, saveCreds } = await usePrismaAuthState('s1', prisma)
+		state.creds.me = { id: '123@s.whatsapp.net' }
+		await saveCreds()
+		await state.keys.set({
+			'pre-key': { '1': { public: Buffer.from('pub'), private: Buffer.from('priv') } },
+			'session': { '123.0': Buffer.from('session') }
+		})
+
+		const { state: loaded } = await usePrismaAuthState('s1', prisma)
+		expect(loaded.creds).toEqual(state.creds)
+		expect(await loaded.keys.get('pre-key', ['1', '2'])).toEqual({
+			'1': { public: Buffer.from('pub'), private: Buffer.from('priv') }
+		})
+		expect(await loaded.keys.get('session', ['123.0'])).toEqual({ '123.0': Buffer.from('session') })
+	})
+
+	it('should delete keys set to null', async() => {
+		const { prisma, keys } = makeMockPrisma(['s1'])
+		const { state } = await usePrismaAuthState('s1', prisma)
+
+		await state.keys.set({ 'session': { 'a': Buffer.from('a'), 'b': Buffer.from('b') } })
+		await state.keys.set({ 'session': { 'a': null } })
+
+		expect(await state.keys.get('session', ['a', 'b'])).toEqual({ 'b': Buffer.from('b') })
+
+		await state.keys.clear!()
+		expect(keys.size).toEqual(0)
+	})
+
+	it('should require the session row', async() => {
+		const { prisma } = makeMockPrisma([])
+
+		await expect(usePrismaAuthState('s1', prisma)).rejects.toThrow('session s1 not found')
+	})
+
+	describe('Import', () => {
+
+		let folder: string
+
+		beforeEach(async() => {
+			folder = await mkdtemp(join(tmpdir(), 'auth-state-'))
+		})
+
+		afterEach(async() => {
+			await rm(folder, { recursive: true, force: true })
+		})
+
+		it('should copy the creds & keys of a folder', async() => {
+			const { state: fileState, saveCreds } = await useMultiFileAuthState(folder)
+			await saveCreds()
+			await fileState.keys.set({
+				'pre-key': { '7': { public: Buffer.from('pub'), private: Buffer.from('priv') } },
+				'sender-key': { '123@g.us::456::0': Buffer.from('sender') },
+				'sender-key-memory': { '123@g.us': { '456:0@s.whatsapp.net': true } }
+			})
+
+			const { prisma } = makeMockPrisma(['s1'])
+			expect(await importMultiFileAuthState('s1', folder, prisma)).toBe(true)
+
+			const { state } = await usePrismaAuthState('s1', prisma)
+			expect(state.creds).toEqual(fileState.creds)
+			expect(await state.keys.get('pre-key', ['7'])).toEqual({
+				'7': { public: Buffer.from('pub'), private: Buffer.from('priv') }
+			})
+			expect(await state.keys.get('sender-key', ['123@g.us::456::0'])).toEqual({
+				'123@g.us::456::0': Buffer.from('sender')
+			})
+			expect(await state.keys.get('sender-key-memory', ['123@g.us'])).toEqual({
+				'123@g.us': { '456:0@s.whatsapp.net': true }
+			})
+		})
+
+		it('should skip a folder without creds', async() => {
+			const { prisma } = makeMockPrisma(['s1'])
+
+			expect(await importMultiFileAuthState('s1', folder, prisma)).toBe(false)
+			expect(await importMultiFileAuthState('s1', join(folder, 'missing'), prisma)).toBe(false)
+		})
+	})
+})
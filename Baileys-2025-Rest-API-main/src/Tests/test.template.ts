@@ -0,0 +1,37 @@
+import { findMissingVariables, findPlaceholders, renderTemplate, withoutPlaceholderErrors } from '../Utils/template'
+
+describe('Template Tests', () => {
+
+	it('should fill the placeholders of every string', () => {
+		const content = { text: 'Hi {{ name }}, see you in {{city}} {{unknown}}', values: ['{{name}}'], count: 2 }
+
+		expect(renderTemplate(content, { name: 'Jane', city: 'Paris' })).toEqual({
+			text: 'Hi Jane, see you in Paris {{unknown}}',
+			values: ['Jane'],
+			count: 2
+		})
+	})
+
+	it('should list the placeholders once, in order', () => {
+		const content = { name: '{{question}}', values: ['{{ first }}', '{{second}}', '{{first}}'], selectableCount: 1 }
+
+		expect(findPlaceholders(content)).toEqual(['question', 'first', 'second'])
+		expect(findPlaceholders({ text: 'no placeholder, {not one} either' })).toEqual([])
+	})
+
+	it('should report the variables without a value', () => {
+		const content = { caption: 'Order {{orderId}} for {{name}}', url: 'https://example.com/{{orderId}}.png' }
+
+		expect(findMissingVariables(content, { orderId: 42 })).toEqual(['name'])
+		expect(findMissingVariables(content, { orderId: '', name: 'Jane' })).toEqual([])
+	})
+
+	it('should leave the problems of placeholder fields for later', () => {
+		const errors = [
+			{ field: 'content.url', message: 'must be an http(s) URL', value: '{{imageUrl}}' },
+			{ field: 'content.caption', message: 'must be a non-empty string', value: 42 }
+		]
+
+		expect(withoutPlaceholderErrors(errors)).toEqual([errors[1]])
+	})
+})
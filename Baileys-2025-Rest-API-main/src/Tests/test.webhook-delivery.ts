@@ -0,0 +1,19 @@
+import { dueDeliveriesWhere, saturatedWebhookIds } from '../Utils/webhookDelivery'
+
+describe('Webhook Delivery Tests', () => {
+
+	it('should only leave out saturated endpoints', () => {
+		const active = new Map([['busy', 2], ['idle', 1]])
+		const saturated = saturatedWebhookIds(active, 2)
+
+		expect(saturated).toEqual(['busy'])
+		expect(dueDeliveriesWhere(new Date(), saturated).webhookId).toEqual({ notIn: ['busy'] })
+	})
+
+	it('should query every endpoint when none is saturated', () => {
+		const saturated = saturatedWebhookIds(new Map([['idle', 1]]), 2)
+
+		expect(saturated).toEqual([])
+		expect(dueDeliveriesWhere(new Date(), saturated)).not.toHaveProperty('webhookId')
+	})
+})
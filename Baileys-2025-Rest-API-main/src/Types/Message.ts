@@ -116,6 +116,9 @@ export type AnyMediaMessageContent = (
         mimetype: string
         fileName?: string
         caption?: string
+        /** image the preview of the document is generated from */
+        thumbnail?: WAMediaUpload
+        jpegThumbnail?: string
     } & Contextable))
     & { mimetype?: string } & Editable
 
@@ -1,14 +1,17 @@
 import { Request } from 'express';
 import { WASocket } from '../index';
+import type { MediaArchivePolicy } from '../Utils/mediaArchive';
 
 // Extend Express Request to include user and session info
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: string;
+  apiKey: string;
+}
+
 export interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    email: string;
-    role: string;
-    apiKey: string;
-  };
+  user?: AuthenticatedUser;
   sessionId?: string;
 }
 
@@ -22,8 +25,10 @@ export interface WhatsAppSession {
   phoneNumber?: string;
   name?: string;
   lastSeen?: Date;
+  userId?: string;
   authData?: any;
   metadata?: any;
+  mediaPolicy?: MediaArchivePolicy;
 }
 
 export enum SessionStatus {
@@ -104,6 +109,14 @@ export interface MessageOptions {
   edit?: string;
 }
 
+// Who asked for an outbound message, kept with it to trace its delivery
+export interface MessageTracking {
+  source?: string;
+  requestedBy?: string;
+  correlationId?: string;
+  requestPayload?: any;
+}
+
 export enum MessageType {
   TEXT = 'text',
   IMAGE = 'image',
@@ -168,10 +181,13 @@ export interface ContactInfo {
 export interface PresenceInfo {
   status: 'available' | 'unavailable' | 'composing' | 'recording' | 'paused';
   lastSeen?: Date;
+  // when the presence was last reported
+  updatedAt?: Date;
 }
 
 // Business Types
 export interface BusinessProfile {
+  jid?: string;
   description?: string;
   email?: string;
   website?: string;
@@ -189,6 +205,7 @@ export interface DaySchedule {
   day: number; // 0-6 (Sunday-Saturday)
   open: string; // HH:MM format
   close: string; // HH:MM format
+  mode?: string; // specific_hours, open_24h or appointment_only
 }
 
 export interface Product {
@@ -200,6 +217,19 @@ export interface Product {
   images?: string[];
   url?: string;
   retailerId?: string;
+  isHidden?: boolean;
+}
+
+export interface CatalogPage {
+  products: Product[];
+  nextCursor?: string;
+}
+
+export interface ProductCollection {
+  id: string;
+  name: string;
+  status: string;
+  products: Product[];
 }
 
 // Webhook Types
@@ -214,9 +244,28 @@ export enum WebhookEvent {
   MESSAGE_RECEIVED = 'message.received',
   MESSAGE_SENT = 'message.sent',
   MESSAGE_UPDATED = 'message.updated',
+  MESSAGE_DELETED = 'message.deleted',
+  MESSAGE_REACTION = 'message.reaction',
+  MESSAGE_RECEIPT = 'message.receipt',
+  CHAT_UPSERTED = 'chat.upserted',
   CHAT_UPDATED = 'chat.updated',
+  CHAT_DELETED = 'chat.deleted',
+  GROUP_UPSERTED = 'group.upserted',
   GROUP_UPDATED = 'group.updated',
+  GROUP_PARTICIPANTS_UPDATED = 'group.participants.updated',
+  GROUP_JOIN_REQUEST = 'group.join_request',
+  CONTACT_UPSERTED = 'contact.upserted',
   CONTACT_UPDATED = 'contact.updated',
+  BLOCKLIST_SET = 'blocklist.set',
+  BLOCKLIST_UPDATED = 'blocklist.updated',
+  CALL = 'call',
+  LABEL_EDITED = 'label.edited',
+  LABEL_ASSOCIATION = 'label.association',
+  HISTORY_SYNC = 'history.sync',
+  SCHEDULED_MESSAGE_SENT = 'scheduled_message.sent',
+  SCHEDULED_MESSAGE_FAILED = 'scheduled_message.failed',
+  CAMPAIGN_STATUS = 'campaign.status',
+  CAMPAIGN_RECIPIENT = 'campaign.recipient',
   CONNECTION_UPDATED = 'connection.updated',
   PRESENCE_UPDATED = 'presence.updated'
 }
@@ -0,0 +1,163 @@
+export interface CampaignRecipientInput {
+  phoneNumber: string;
+  variables?: Record<string, string>;
+}
+
+export interface RecipientListError {
+  line: number;
+  message: string;
+}
+
+export interface CampaignRecipientEntry {
+  jid: string;
+  phoneNumber: string;
+  variables: Record<string, string>;
+}
+
+const PHONE_COLUMNS = ['phone', 'phonenumber', 'phone_number', 'number', 'jid'];
+
+/**
+ * Split CSV text into rows of cells, with quoted cells that may hold delimiters, quotes ("") & line breaks
+ */
+const parseCsvRows = (csv: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Read a recipient list with a header row. The phone number column is named phone, phoneNumber, number or jid,
+ * every other column becomes a template variable of the recipient, unless the cell is blank.
+ */
+export const parseRecipientsCsv = (csv: string): { recipients: CampaignRecipientInput[]; errors: RecipientListError[] } => {
+  const text = csv.replace(/^\uFEFF/, '');
+  // spreadsheets exported with a comma decimal separator use semicolons
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+  const rows = parseCsvRows(text, delimiter);
+  const recipients: CampaignRecipientInput[] = [];
+  const errors: RecipientListError[] = [];
+
+  const header = rows.shift();
+  const phoneIndex = header ? header.findIndex(column => PHONE_COLUMNS.includes(column.toLowerCase())) : -1;
+  if (!header || phoneIndex === -1) {
+    errors.push({ line: 1, message: `The header must have a ${PHONE_COLUMNS.join(', ')} column` });
+    return { recipients, errors };
+  }
+
+  rows.forEach((row, index) => {
+    // blank lines
+    if (row.every(cell => !cell)) return;
+
+    const line = index + 2;
+    if (!row[phoneIndex]) {
+      errors.push({ line, message: 'Missing phone number' });
+      return;
+    }
+
+    const variables: Record<string, string> = {};
+    header.forEach((column, columnIndex) => {
+      if (columnIndex !== phoneIndex && column && row[columnIndex]) {
+        variables[column] = row[columnIndex];
+      }
+    });
+
+    recipients.push({ phoneNumber: row[phoneIndex], variables });
+  });
+
+  return { recipients, errors };
+};
+
+/**
+ * JID of a recipient given as a phone number in any format, or as a user JID.
+ * Resolves to undefined when it can't be a phone number.
+ */
+export const toRecipientJid = (phoneNumber: string): string | undefined => {
+  const [user, server] = phoneNumber.trim().split('@');
+  if (server && server !== 's.whatsapp.net') {
+    return undefined;
+  }
+
+  const digits = user.replace(/[\s()+\-.]/g, '');
+  if (!/^\d{6,15}$/.test(digits)) {
+    return undefined;
+  }
+
+  return `${digits}@s.whatsapp.net`;
+};
+
+/**
+ * Turn the numbers of a recipient list into JIDs, dropping the duplicates.
+ * `validate` can reject more entries by returning why.
+ * Rejected entries are reported with their position in the list, starting at 1.
+ */
+export const normalizeRecipients = (
+  inputs: CampaignRecipientInput[],
+  validate?: (input: CampaignRecipientInput) => string | undefined
+): {
+  recipients: CampaignRecipientEntry[];
+  rejected: { position: number; phoneNumber: string; message: string }[];
+  duplicates: number;
+} => {
+  const recipients = new Map<string, CampaignRecipientEntry>();
+  const rejected: { position: number; phoneNumber: string; message: string }[] = [];
+  let duplicates = 0;
+
+  inputs.forEach((input, index) => {
+    const jid = toRecipientJid(String(input.phoneNumber || ''));
+    const problem = jid ? validate?.(input) : 'Invalid phone number';
+    if (!jid || problem) {
+      rejected.push({ position: index + 1, phoneNumber: input.phoneNumber, message: problem || 'Invalid phone number' });
+    } else if (recipients.has(jid)) {
+      duplicates++;
+    } else {
+      recipients.set(jid, { jid, phoneNumber: input.phoneNumber, variables: input.variables || {} });
+    }
+  });
+
+  return { recipients: Array.from(recipients.values()), rejected, duplicates };
+};
+
+/**
+ * Random pause between two sends, so they don't go out at a fixed rhythm
+ */
+export const pickSendInterval = (minMs: number, maxMs: number): number => {
+  return minMs + Math.round(Math.random() * Math.max(0, maxMs - minMs));
+};
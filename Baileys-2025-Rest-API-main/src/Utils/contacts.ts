@@ -0,0 +1,44 @@
+/**
+ * A phone number in E.164 format along with its WhatsApp JID
+ */
+export interface NormalizedPhoneNumber {
+  e164: string;
+  jid: string;
+}
+
+/**
+ * Normalize a phone number written in any usual way, e.g. "+44 20 7946 0958", "0044 20 7946 0958"
+ * or a user JID, to E.164. Given the country calling code of the list, numbers without "+" or "00"
+ * are taken as national ones ("020 7946 0958", "(202) 555-0123"), without it as already international.
+ * Resolves to undefined when it can't be a phone number.
+ */
+export const normalizePhoneNumber = (input: string, defaultCountryCode?: string): NormalizedPhoneNumber | undefined => {
+  const [user, server] = input.trim().split('@');
+  if (server && server !== 's.whatsapp.net') {
+    return undefined;
+  }
+
+  let digits = user.replace(/[\s()\-./]/g, '');
+  if (digits.startsWith('+')) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith('00')) {
+    // international call prefix used in most of the world
+    digits = digits.slice(2);
+  } else if (!server && defaultCountryCode) {
+    // without the national trunk prefix, not every country has one
+    digits = `${defaultCountryCode.replace(/\D/g, '')}${digits.replace(/^0/, '')}`;
+  }
+
+  if (!/^[1-9]\d{6,14}$/.test(digits)) {
+    return undefined;
+  }
+
+  return { e164: `+${digits}`, jid: `${digits}@s.whatsapp.net` };
+};
+
+/**
+ * Whether a value looked up at checkedAt is still fresh after ttlSeconds
+ */
+export const isFresh = (checkedAt: Date | null | undefined, ttlSeconds: number, now = Date.now()): boolean => {
+  return !!checkedAt && checkedAt.getTime() + ttlSeconds * 1000 > now;
+};
@@ -0,0 +1,189 @@
+import type { GroupMetadata, GroupParticipant, ParticipantAction } from '../Types';
+import { areJidsSameUser } from '../WABinary/jid-utils';
+
+export const GROUP_INVITE_LINK_PREFIX = 'https://chat.whatsapp.com/';
+
+export const toInviteLink = (code: string): string => `${GROUP_INVITE_LINK_PREFIX}${code}`;
+
+/**
+ * Invite code of an invite link, or the code itself when given one
+ */
+export const inviteCodeOf = (linkOrCode: string): string => {
+  const value = linkOrCode.trim();
+  const code = value.startsWith(GROUP_INVITE_LINK_PREFIX) ? value.slice(GROUP_INVITE_LINK_PREFIX.length) : value;
+  // links shared from the phone may carry a query string
+  return code.split(/[?#]/)[0];
+};
+
+/**
+ * Group settings that can be changed through the API, named after their GroupMetadata field
+ */
+export interface GroupSettings {
+  // only admins can send messages
+  announce?: boolean;
+  // only admins can edit the group info
+  restrict?: boolean;
+  // members can add participants too
+  memberAddMode?: boolean;
+  // requests to join must be approved by an admin
+  joinApprovalMode?: boolean;
+  // disappearing messages timer in seconds, 0 turns them off
+  ephemeralDuration?: number;
+}
+
+export type GroupSettingChange =
+  | { type: 'setting'; setting: 'announcement' | 'not_announcement' | 'locked' | 'unlocked' }
+  | { type: 'memberAddMode'; mode: 'admin_add' | 'all_member_add' }
+  | { type: 'joinApprovalMode'; mode: 'on' | 'off' }
+  | { type: 'ephemeral'; expiration: number };
+
+/**
+ * The socket calls needed to apply the given settings, in the order of the fields above
+ */
+export const groupSettingChanges = (settings: GroupSettings): GroupSettingChange[] => {
+  const changes: GroupSettingChange[] = [];
+  const given = (key: keyof GroupSettings) => settings[key] !== undefined;
+
+  if (given('announce')) {
+    changes.push({ type: 'setting', setting: settings.announce ? 'announcement' : 'not_announcement' });
+  }
+
+  if (given('restrict')) {
+    changes.push({ type: 'setting', setting: settings.restrict ? 'locked' : 'unlocked' });
+  }
+
+  if (given('memberAddMode')) {
+    changes.push({ type: 'memberAddMode', mode: settings.memberAddMode ? 'all_member_add' : 'admin_add' });
+  }
+
+  if (given('joinApprovalMode')) {
+    changes.push({ type: 'joinApprovalMode', mode: settings.joinApprovalMode ? 'on' : 'off' });
+  }
+
+  if (given('ephemeralDuration')) {
+    changes.push({ type: 'ephemeral', expiration: settings.ephemeralDuration! });
+  }
+
+  return changes;
+};
+
+/**
+ * Fold a groups.update into the cached metadata of the group, the fields it doesn't carry are kept
+ */
+export const applyGroupUpdate = (metadata: GroupMetadata, update: Partial<GroupMetadata>): GroupMetadata => {
+  const merged = { ...metadata };
+  for (const [key, value] of Object.entries(update)) {
+    // author is who made the change, not a property of the group
+    if (value !== undefined && key !== 'author') {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  if (update.participants) {
+    merged.size = update.participants.length;
+  }
+
+  return merged;
+};
+
+/**
+ * Fold a group-participants.update into the cached metadata of the group.
+ * Undefined for number changes, their participants don't say which one replaces which,
+ * so the metadata has to be fetched again.
+ */
+export const applyParticipantsUpdate = (
+  metadata: GroupMetadata,
+  update: { participants: string[]; action: ParticipantAction }
+): GroupMetadata | undefined => {
+  const isUpdated = (participant: GroupParticipant) => update.participants.some(jid => areJidsSameUser(jid, participant.id));
+  let participants: GroupParticipant[];
+
+  switch (update.action) {
+  case 'add':
+    participants = [
+      ...metadata.participants,
+      ...update.participants
+        .filter(jid => !metadata.participants.some(participant => areJidsSameUser(jid, participant.id)))
+        .map(id => ({ id, admin: null }))
+    ];
+    break;
+  case 'remove':
+    participants = metadata.participants.filter(participant => !isUpdated(participant));
+    break;
+  case 'promote':
+  case 'demote':
+    participants = metadata.participants.map(participant => (
+      // the creator of the group stays its superadmin
+      isUpdated(participant) && participant.admin !== 'superadmin'
+        ? { ...participant, admin: update.action === 'promote' ? 'admin' : null }
+        : participant
+    ));
+    break;
+  default:
+    return undefined;
+  }
+
+  return { ...metadata, participants, size: participants.length };
+};
+
+/**
+ * Whether the session is an admin of the group, ownJids holds its phone number & LID
+ */
+export const isGroupAdmin = (metadata: Pick<GroupMetadata, 'participants'>, ownJids: (string | undefined)[]): boolean => {
+  return metadata.participants.some(participant => (
+    !!participant.admin && ownJids.some(jid => jid && areJidsSameUser(jid, participant.id))
+  ));
+};
+
+export type ParticipantAddStatus = 'added' | 'invited' | 'already_member' | 'not_on_whatsapp' | 'invalid' | 'failed';
+
+/**
+ * Outcome of adding one number to a group, as reported by the bulk add
+ */
+export interface ParticipantAddResult {
+  input: string;
+  jid?: string;
+  status: ParticipantAddStatus;
+  // status code WhatsApp answered with, when it got that far
+  code?: string;
+  reason: string;
+  // ID of the invite message sent instead, for numbers that can't be added directly
+  inviteMessageId?: string;
+}
+
+// Codes WhatsApp answers a participant add with, a missing one means it went through
+const PARTICIPANT_ADD_CODES: Record<string, { status: ParticipantAddStatus; reason: string }> = {
+  200: { status: 'added', reason: 'Added to the group' },
+  401: { status: 'failed', reason: 'This account has blocked the number, or is blocked by it' },
+  403: { status: 'failed', reason: 'The privacy settings of the number only allow being invited' },
+  404: { status: 'not_on_whatsapp', reason: 'The number is not on WhatsApp' },
+  408: { status: 'failed', reason: 'The number left the group recently and cannot be added back yet' },
+  409: { status: 'already_member', reason: 'Already a member of the group' },
+  417: { status: 'failed', reason: 'Participants cannot be added to the announcement group of a community' },
+  419: { status: 'failed', reason: 'The group is full' },
+  500: { status: 'failed', reason: 'WhatsApp failed to add the number' }
+};
+
+export const describeParticipantAdd = (code: string): { status: ParticipantAddStatus; reason: string } => {
+  return PARTICIPANT_ADD_CODES[code] || { status: 'failed', reason: `WhatsApp refused to add the number (code ${code})` };
+};
+
+/**
+ * Number of results of each status, every status is present
+ */
+export const summarizeParticipantAdds = (results: ParticipantAddResult[]): Record<ParticipantAddStatus, number> => {
+  const summary: Record<ParticipantAddStatus, number> = {
+    added: 0,
+    invited: 0,
+    already_member: 0,
+    not_on_whatsapp: 0,
+    invalid: 0,
+    failed: 0
+  };
+
+  for (const result of results) {
+    summary[result.status]++;
+  }
+
+  return summary;
+};
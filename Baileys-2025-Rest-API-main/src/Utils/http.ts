@@ -0,0 +1,11 @@
+/**
+ * Content-Disposition header serving a file inline under its name. Browsers read the name
+ * from filename*, the ASCII filename is the fallback for the clients that don't.
+ */
+export const inlineContentDisposition = (fileName: string): string => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  // encodeURIComponent leaves a few characters that aren't allowed in filename*
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
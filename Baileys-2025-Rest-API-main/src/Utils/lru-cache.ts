@@ -0,0 +1,44 @@
+import type { CacheStore } from '../Types'
+
+/**
+ * Minimal least-recently-used cache, evicts the oldest entry once `maxSize` is reached.
+ * Implements CacheStore so it can be plugged into any of the socket caches.
+ */
+export class LRUCache implements CacheStore {
+	private readonly items = new Map<string, unknown>()
+
+	constructor(private readonly maxSize: number) {}
+
+	get<T>(key: string): T | undefined {
+		if(!this.items.has(key)) {
+			return undefined
+		}
+
+		// re-insert to mark as most recently used
+		const value = this.items.get(key) as T
+		this.items.delete(key)
+		this.items.set(key, value)
+		return value
+	}
+
+	set<T>(key: string, value: T) {
+		this.items.delete(key)
+		this.items.set(key, value)
+		if(this.items.size > this.maxSize) {
+			const oldest = this.items.keys().next().value
+			this.items.delete(oldest)
+		}
+	}
+
+	del(key: string) {
+		this.items.delete(key)
+	}
+
+	flushAll() {
+		this.items.clear()
+	}
+
+	get size() {
+		return this.items.size
+	}
+}
@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { MEDIA_MESSAGE_TYPES, MediaMessageType } from './messageContent';
+
+/**
+ * Which media of the incoming messages of a session is downloaded & kept
+ */
+export interface MediaArchivePolicy {
+  enabled: boolean;
+  mediaTypes: MediaMessageType[];
+  // larger files are left on WhatsApp
+  maxSizeBytes?: number;
+  // only these chats when given, and never the excluded ones
+  chats?: string[];
+  excludeChats?: string[];
+  // whether group chats are archived
+  groups: boolean;
+}
+
+export const DEFAULT_MEDIA_ARCHIVE_POLICY: MediaArchivePolicy = {
+  enabled: false,
+  mediaTypes: ['image', 'audio', 'document'],
+  groups: true
+};
+
+/**
+ * The policy of a session from its stored value, the defaults fill what it doesn't set
+ */
+export const parseMediaArchivePolicy = (value: unknown): MediaArchivePolicy => {
+  const stored = value && typeof value === 'object' ? value as Partial<MediaArchivePolicy> : {};
+  return { ...DEFAULT_MEDIA_ARCHIVE_POLICY, ...stored };
+};
+
+/**
+ * Media type of a Baileys content type, e.g. documentMessage, undefined for anything but media
+ */
+export const mediaTypeOfContentType = (contentType?: string): MediaMessageType | undefined => {
+  if (contentType === 'ptvMessage') return 'video';
+
+  const mediaType = contentType?.replace(/Message$/, '');
+  return MEDIA_MESSAGE_TYPES.find(type => type === mediaType);
+};
+
+export const shouldArchiveMedia = (
+  policy: MediaArchivePolicy,
+  media: { mediaType: MediaMessageType; size?: number; chatId: string }
+): boolean => {
+  if (!policy.enabled || !policy.mediaTypes.includes(media.mediaType)) return false;
+  if (policy.maxSizeBytes !== undefined && (media.size === undefined || media.size > policy.maxSizeBytes)) return false;
+  if (!policy.groups && media.chatId.endsWith('@g.us')) return false;
+  if (policy.chats?.length && !policy.chats.includes(media.chatId)) return false;
+
+  return !policy.excludeChats?.includes(media.chatId);
+};
+
+/**
+ * Until when an archived file must be kept. Documents sent by customers are
+ * kept for the retention period, anything else can be deleted at any time.
+ */
+export const retentionFor = (
+  media: { mediaType: MediaMessageType; fromMe: boolean; receivedAt: Date },
+  documentRetentionYears: number
+): Date | undefined => {
+  if (media.mediaType !== 'document' || media.fromMe || documentRetentionYears <= 0) return undefined;
+
+  const retainUntil = new Date(media.receivedAt);
+  retainUntil.setUTCFullYear(retainUntil.getUTCFullYear() + documentRetentionYears);
+  return retainUntil;
+};
+
+export const signMediaAccess = (assetId: string, expires: number, secret: string): string => {
+  return createHmac('sha256', secret).update(`${assetId}.${expires}`).digest('hex');
+};
+
+/**
+ * Check a signature made by signMediaAccess, expires is in seconds since the epoch
+ */
+export const verifyMediaAccess = (assetId: string, expires: number, signature: string, secret: string, now = Date.now()): boolean => {
+  if (!Number.isFinite(expires) || expires * 1000 < now) return false;
+
+  const expected = Buffer.from(signMediaAccess(assetId, expires, secret));
+  const candidate = Buffer.from(signature);
+
+  return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+};
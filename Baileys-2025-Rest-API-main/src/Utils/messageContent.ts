@@ -0,0 +1,505 @@
+import { proto } from '../../WAProto';
+import type { AnyMessageContent, WAMediaUpload } from '../Types';
+
+export const SEND_MESSAGE_TYPES = [
+  'text',
+  'image',
+  'video',
+  'audio',
+  'document',
+  'sticker',
+  'location',
+  'contact',
+  'poll',
+  'reaction',
+  'buttonReply',
+  'listReply',
+  'groupInvite',
+  'pin',
+  'product',
+  'sharePhoneNumber',
+  'requestPhoneNumber',
+  'disappearingMessages'
+] as const;
+
+export type SendMessageType = typeof SEND_MESSAGE_TYPES[number];
+
+export const MEDIA_MESSAGE_TYPES = ['image', 'video', 'audio', 'document', 'sticker'] as const;
+
+export type MediaMessageType = typeof MEDIA_MESSAGE_TYPES[number];
+
+export interface ContentValidationError {
+  field: string;
+  message: string;
+  value?: any;
+}
+
+const PIN_DURATIONS = [86400, 604800, 2592000];
+export const DISAPPEARING_DURATIONS = [0, 86400, 604800, 7776000];
+
+const MIMETYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  zip: 'application/zip',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  '3gp': 'video/3gpp',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  opus: 'audio/ogg; codecs=opus',
+  wav: 'audio/wav'
+};
+
+/**
+ * Mimetype of a file name or URL, going by its extension
+ */
+export const guessMimetype = (name?: unknown): string | undefined => {
+  if (typeof name !== 'string') return undefined;
+
+  const extension = name.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i);
+  return extension ? MIMETYPES_BY_EXTENSION[extension[1].toLowerCase()] : undefined;
+};
+
+// Media of the library is referenced as asset:<id>, and swapped for the stored file when the message is sent
+const ASSET_URL_PREFIX = 'asset:';
+
+export const toAssetUrl = (assetId: string) => `${ASSET_URL_PREFIX}${assetId}`;
+
+/**
+ * Id of the library asset some media refers to
+ */
+export const assetIdOf = (media: unknown): string | undefined => {
+  const url = (media as any)?.url;
+  return typeof url === 'string' && url.startsWith(ASSET_URL_PREFIX) ? url.slice(ASSET_URL_PREFIX.length) : undefined;
+};
+
+/**
+ * Voice notes are opus, which WhatsApp only plays when the codec is named
+ */
+export const toVoiceNoteMimetype = (mimetype?: string) => (
+  mimetype === 'audio/ogg' ? 'audio/ogg; codecs=opus' : mimetype
+);
+
+/**
+ * Message type a file is sent as when none is asked for, anything but images, videos & audio goes as a document
+ */
+export const mediaTypeForMimetype = (mimetype?: string): MediaMessageType => {
+  const [kind] = (mimetype || '').split('/');
+  return kind === 'image' || kind === 'video' || kind === 'audio' ? kind : 'document';
+};
+
+/**
+ * Collects the problems of one request body, so the client gets all of them at once
+ */
+class ContentReader {
+  readonly errors: ContentValidationError[] = [];
+
+  constructor(private readonly content: any) {}
+
+  private fail(field: string, message: string, value: any) {
+    this.errors.push({ field: `content.${field}`, message, value });
+  }
+
+  string(field: string, options: { required?: boolean; allowEmpty?: boolean } = {}): string | undefined {
+    const { required = true, allowEmpty = false } = options;
+    const value = this.content[field];
+    if (value === undefined || value === null) {
+      if (required) this.fail(field, 'is required', value);
+      return undefined;
+    }
+
+    if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+      this.fail(field, 'must be a non-empty string', value);
+      return undefined;
+    }
+
+    return value;
+  }
+
+  number(field: string, options: { required?: boolean; min?: number; max?: number; integer?: boolean; oneOf?: number[] } = {}): number | undefined {
+    const { required = true, min, max, integer, oneOf } = options;
+    const value = this.content[field];
+    if (value === undefined || value === null) {
+      if (required) this.fail(field, 'is required', value);
+      return undefined;
+    }
+
+    if (typeof value !== 'number' || isNaN(value) || (integer && !Number.isInteger(value))) {
+      this.fail(field, integer ? 'must be an integer' : 'must be a number', value);
+      return undefined;
+    }
+
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      this.fail(field, `must be between ${min ?? '-∞'} and ${max ?? '∞'}`, value);
+      return undefined;
+    }
+
+    if (oneOf && !oneOf.includes(value)) {
+      this.fail(field, `must be one of ${oneOf.join(', ')}`, value);
+      return undefined;
+    }
+
+    return value;
+  }
+
+  boolean(field: string): boolean | undefined {
+    const value = this.content[field];
+    if (value === undefined || value === null) return undefined;
+
+    if (typeof value !== 'boolean') {
+      this.fail(field, 'must be a boolean', value);
+      return undefined;
+    }
+
+    return value;
+  }
+
+  oneOf<T extends string>(field: string, values: readonly T[], defaultValue?: T): T | undefined {
+    const value = this.content[field];
+    if (value === undefined || value === null) {
+      if (defaultValue === undefined) this.fail(field, `is required, one of ${values.join(', ')}`, value);
+      return defaultValue;
+    }
+
+    if (!values.includes(value)) {
+      this.fail(field, `must be one of ${values.join(', ')}`, value);
+      return undefined;
+    }
+
+    return value;
+  }
+
+  stringArray(field: string, options: { min?: number; max?: number } = {}): string[] | undefined {
+    const { min = 1, max } = options;
+    const value = this.content[field];
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+      this.fail(field, 'must be a list of non-empty strings', value);
+      return undefined;
+    }
+
+    if (value.length < min || (max !== undefined && value.length > max)) {
+      this.fail(field, max !== undefined ? `must hold between ${min} and ${max} items` : `must hold at least ${min} items`, value);
+      return undefined;
+    }
+
+    return value;
+  }
+
+  /**
+   * Media is given as a public URL, a base64 string (data URLs are accepted) or the id of a library asset,
+   * in the url, base64 & assetId fields, or prefixed ones such as thumbnailUrl & thumbnailBase64
+   */
+  media(options: { prefix?: string; required?: boolean } = {}): WAMediaUpload | undefined {
+    const { prefix, required = true } = options;
+    const urlField = prefix ? `${prefix}Url` : 'url';
+    const base64Field = prefix ? `${prefix}Base64` : 'base64';
+    const assetField = prefix ? `${prefix}AssetId` : 'assetId';
+
+    const url = this.string(urlField, { required: false });
+    const base64 = this.string(base64Field, { required: false });
+    const assetId = this.string(assetField, { required: false });
+    if ([url, base64, assetId].filter(Boolean).length > 1) {
+      this.fail(urlField, `give only one of ${urlField}, ${base64Field} or ${assetField}`, url);
+      return undefined;
+    }
+
+    if (assetId) {
+      return { url: toAssetUrl(assetId) };
+    }
+
+    if (url) {
+      if (!/^https?:\/\//i.test(url)) {
+        this.fail(urlField, 'must be an http(s) URL', url);
+        return undefined;
+      }
+
+      return { url };
+    }
+
+    if (base64) {
+      return Buffer.from(base64.replace(/^data:[^;,]+(;[^;,]+)*;base64,/, ''), 'base64');
+    }
+
+    if (required && !this.errors.some(error => error.field === `content.${urlField}` || error.field === `content.${base64Field}`)) {
+      this.fail(urlField, `${urlField}, ${base64Field} or ${assetField} is required`, undefined);
+    }
+
+    return undefined;
+  }
+}
+
+const escapeVCard = (value: string) => value.replace(/([,;\\])/g, '\\$1').replace(/\n/g, '\\n');
+
+/**
+ * Build a minimal vCard 3.0, the waid parameter lets WhatsApp link the card to the account
+ */
+export const buildVCard = (contact: { fullName: string; phoneNumber: string; organization?: string; email?: string }): string => {
+  const digits = contact.phoneNumber.replace(/[^\d]/g, '');
+  return [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCard(contact.fullName)}`,
+    ...(contact.organization ? [`ORG:${escapeVCard(contact.organization)};`] : []),
+    `TEL;type=CELL;type=VOICE;waid=${digits}:+${digits}`,
+    ...(contact.email ? [`EMAIL:${escapeVCard(contact.email)}`] : []),
+    'END:VCARD'
+  ].join('\n');
+};
+
+const readContactCards = (reader: ContentReader, contacts: any): proto.Message.IContactMessage[] | undefined => {
+  if (!Array.isArray(contacts) || !contacts.length) {
+    reader.errors.push({ field: 'content.contacts', message: 'must be a non-empty list', value: contacts });
+    return undefined;
+  }
+
+  const cards: proto.Message.IContactMessage[] = [];
+  contacts.forEach((contact: any, index: number) => {
+    const field = `content.contacts[${index}]`;
+    if (typeof contact?.vcard === 'string' && contact.vcard.includes('BEGIN:VCARD')) {
+      cards.push({ displayName: contact.displayName, vcard: contact.vcard });
+    } else if (typeof contact?.fullName === 'string' && typeof contact?.phoneNumber === 'string' && /\d/.test(contact.phoneNumber)) {
+      cards.push({ displayName: contact.displayName || contact.fullName, vcard: buildVCard(contact) });
+    } else {
+      reader.errors.push({ field, message: 'needs a vcard, or fullName and phoneNumber', value: contact });
+    }
+  });
+
+  return cards;
+};
+
+/**
+ * Map the JSON body of the send endpoint onto the Baileys message content of its type.
+ * `to` is the chat the message goes to, used for the keys of reactions & pins.
+ * `options.media` is media that came with the request some other way, used in place of url & base64.
+ */
+export const buildMessageContent = (
+  type: SendMessageType,
+  content: any,
+  to: string,
+  options: { mentions?: string[]; viewOnce?: boolean; media?: WAMediaUpload } = {}
+): { content?: AnyMessageContent; errors: ContentValidationError[] } => {
+  const reader = new ContentReader(content || {});
+  const media = () => options.media || reader.media();
+  let message: any;
+
+  const targetKey = (): proto.IMessageKey | undefined => {
+    const id = reader.string('messageId');
+    if (!id) return undefined;
+
+    return {
+      remoteJid: to,
+      id,
+      fromMe: reader.boolean('fromMe') || false,
+      participant: reader.string('participant', { required: false })
+    };
+  };
+
+  switch (type) {
+  case 'text':
+    message = {
+      text: reader.string('text'),
+      // previews are generated unless explicitly turned off
+      ...(reader.boolean('linkPreview') === false && { linkPreview: null })
+    };
+    break;
+  case 'image':
+  case 'video':
+    message = {
+      [type]: media(),
+      caption: reader.string('caption', { required: false, allowEmpty: true }),
+      mimetype: reader.string('mimetype', { required: false }),
+      ...(type === 'video' && {
+        gifPlayback: reader.boolean('gifPlayback'),
+        ptv: reader.boolean('ptv')
+      })
+    };
+    break;
+  case 'audio': {
+    const ptt = reader.boolean('ptt');
+    const mimetype = reader.string('mimetype', { required: false });
+    message = {
+      audio: media(),
+      mimetype: ptt ? toVoiceNoteMimetype(mimetype) : mimetype,
+      ptt,
+      seconds: reader.number('seconds', { required: false, min: 0, integer: true })
+    };
+    break;
+  }
+  case 'document': {
+    const fileName = reader.string('fileName', { required: false });
+    const mimetype = reader.string('mimetype', { required: false }) || guessMimetype(fileName) || guessMimetype(content?.url);
+    const document = media();
+    // library assets know their mimetype
+    if (!mimetype && !assetIdOf(document) && !reader.errors.some(error => error.field === 'content.mimetype')) {
+      reader.errors.push({ field: 'content.mimetype', message: 'is required when the fileName or url has no known extension', value: undefined });
+    }
+
+    message = {
+      document,
+      mimetype,
+      fileName,
+      caption: reader.string('caption', { required: false, allowEmpty: true }),
+      thumbnail: reader.media({ prefix: 'thumbnail', required: false })
+    };
+    break;
+  }
+  case 'sticker':
+    message = {
+      sticker: media(),
+      isAnimated: reader.boolean('isAnimated')
+    };
+    break;
+  case 'location':
+    message = {
+      location: {
+        degreesLatitude: reader.number('latitude', { min: -90, max: 90 }),
+        degreesLongitude: reader.number('longitude', { min: -180, max: 180 }),
+        name: reader.string('name', { required: false }),
+        address: reader.string('address', { required: false })
+      }
+    };
+    break;
+  case 'contact':
+    message = {
+      contacts: {
+        displayName: reader.string('displayName', { required: false }),
+        contacts: readContactCards(reader, content?.contacts)
+      }
+    };
+    break;
+  case 'poll': {
+    const values = reader.stringArray('values', { min: 2, max: 12 });
+    if (values && new Set(values).size !== values.length) {
+      reader.errors.push({ field: 'content.values', message: 'must not contain duplicates', value: values });
+    }
+
+    message = {
+      poll: {
+        name: reader.string('name'),
+        values,
+        // 0 lets voters pick any number of options
+        selectableCount: reader.number('selectableCount', { required: false, min: 0, max: values?.length, integer: true }) ?? 1
+      }
+    };
+    break;
+  }
+  case 'reaction':
+    message = {
+      react: {
+        // an empty emoji removes the reaction
+        text: reader.string('emoji', { allowEmpty: true }),
+        key: targetKey()
+      }
+    };
+    break;
+  case 'buttonReply':
+    message = {
+      buttonReply: {
+        displayText: reader.string('displayText'),
+        id: reader.string('id'),
+        index: reader.number('index', { min: 0, integer: true })
+      },
+      type: reader.oneOf('replyType', ['template', 'plain'] as const, 'template')
+    };
+    break;
+  case 'listReply':
+    message = {
+      listReply: {
+        title: reader.string('title'),
+        description: reader.string('description', { required: false }),
+        listType: proto.Message.ListResponseMessage.ListType.SINGLE_SELECT,
+        singleSelectReply: { selectedRowId: reader.string('selectedRowId') }
+      }
+    };
+    break;
+  case 'groupInvite':
+    message = {
+      groupInvite: {
+        jid: reader.string('groupJid'),
+        inviteCode: reader.string('inviteCode'),
+        inviteExpiration: reader.number('inviteExpiration', { min: 0, integer: true }),
+        subject: reader.string('subject'),
+        text: reader.string('text', { required: false, allowEmpty: true }) || ''
+      }
+    };
+    break;
+  case 'pin': {
+    const action = reader.oneOf('action', ['pin', 'unpin'] as const, 'pin');
+    message = {
+      pin: targetKey(),
+      type: action === 'unpin' ? proto.PinInChat.Type.UNPIN_FOR_ALL : proto.PinInChat.Type.PIN_FOR_ALL,
+      time: reader.number('time', { required: false, oneOf: PIN_DURATIONS })
+    };
+    break;
+  }
+  case 'product': {
+    const product = new ContentReader(content?.product || {});
+    message = {
+      product: {
+        productId: product.string('productId'),
+        title: product.string('title'),
+        description: product.string('description', { required: false }),
+        currencyCode: product.string('currencyCode', { required: false }),
+        priceAmount1000: product.number('priceAmount1000', { required: false, min: 0, integer: true }),
+        retailerId: product.string('retailerId', { required: false }),
+        url: product.string('url', { required: false }),
+        productImageCount: 1,
+        productImage: product.media({ prefix: 'image' })
+      },
+      businessOwnerJid: reader.string('businessOwnerJid'),
+      body: reader.string('body', { required: false }),
+      footer: reader.string('footer', { required: false })
+    };
+    reader.errors.push(...product.errors.map(error => ({ ...error, field: error.field.replace('content.', 'content.product.') })));
+    break;
+  }
+  case 'sharePhoneNumber':
+    message = { sharePhoneNumber: true };
+    break;
+  case 'requestPhoneNumber':
+    message = { requestPhoneNumber: true };
+    break;
+  case 'disappearingMessages':
+    message = {
+      disappearingMessagesInChat: reader.number('expiration', { oneOf: DISAPPEARING_DURATIONS })
+    };
+    break;
+  default:
+    reader.errors.push({ field: 'type', message: `must be one of ${SEND_MESSAGE_TYPES.join(', ')}`, value: type });
+  }
+
+  if (options.mentions?.length) {
+    if (['text', 'image', 'video', 'poll'].includes(type)) {
+      message.mentions = options.mentions;
+    } else {
+      reader.errors.push({ field: 'options.mentions', message: `not supported for ${type} messages`, value: options.mentions });
+    }
+  }
+
+  if (options.viewOnce) {
+    if (['image', 'video', 'audio'].includes(type)) {
+      message.viewOnce = true;
+    } else {
+      reader.errors.push({ field: 'options.viewOnce', message: 'only image, video & audio can be sent view once', value: true });
+    }
+  }
+
+  if (reader.errors.length) {
+    return { errors: reader.errors };
+  }
+
+  return { content: message as AnyMessageContent, errors: [] };
+};
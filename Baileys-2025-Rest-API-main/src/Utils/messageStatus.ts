@@ -0,0 +1,71 @@
+import { proto } from '../../WAProto';
+import type { AnyMessageContent } from '../Types';
+
+export type DeliveryStatus = 'PENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+
+const STATUS_RANK: Record<Exclude<DeliveryStatus, 'FAILED'>, number> = {
+  PENDING: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3
+};
+
+/**
+ * Map the status WhatsApp reports for a message, played voice notes count as read
+ */
+export const toDeliveryStatus = (status: number | null | undefined): DeliveryStatus | undefined => {
+  switch (status) {
+    case proto.WebMessageInfo.Status.ERROR:
+      return 'FAILED';
+    case proto.WebMessageInfo.Status.PENDING:
+      return 'PENDING';
+    case proto.WebMessageInfo.Status.SERVER_ACK:
+      return 'SENT';
+    case proto.WebMessageInfo.Status.DELIVERY_ACK:
+      return 'DELIVERED';
+    case proto.WebMessageInfo.Status.READ:
+    case proto.WebMessageInfo.Status.PLAYED:
+      return 'READ';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Whether a message in the `current` status should move to `next`.
+ * Statuses only move forward; a failure can't undo a delivery,
+ * but a receipt arriving after a failure proves the message went through.
+ */
+export const isStatusAdvance = (current: DeliveryStatus, next: DeliveryStatus): boolean => {
+  if (current === next) {
+    return false;
+  }
+
+  if (next === 'FAILED') {
+    return current === 'PENDING' || current === 'SENT';
+  }
+
+  if (current === 'FAILED') {
+    return next === 'DELIVERED' || next === 'READ';
+  }
+
+  return STATUS_RANK[next] > STATUS_RANK[current];
+};
+
+/**
+ * Message type of the content handed to sendMessage, before it is turned into a proto message
+ */
+export const getContentMessageType = (content: AnyMessageContent): string => {
+  if ('image' in content) return 'IMAGE';
+  if ('video' in content) return 'VIDEO';
+  if ('audio' in content) return 'AUDIO';
+  if ('document' in content) return 'DOCUMENT';
+  if ('sticker' in content) return 'STICKER';
+  if ('location' in content) return 'LOCATION';
+  if ('contacts' in content) return 'CONTACT';
+  if ('poll' in content) return 'POLL';
+  if ('react' in content) return 'REACTION';
+  if ('buttonReply' in content) return 'BUTTON_REPLY';
+  if ('listReply' in content) return 'LIST_REPLY';
+  return 'TEXT';
+};
@@ -27,7 +27,7 @@ import { isJidGroup, isJidStatusBroadcast, jidNormalizedUser } from '../WABinary
 import { sha256 } from './crypto'
 import { generateMessageIDV2, getKeyAuthor, unixTimestampSeconds } from './generics'
 import { ILogger } from './logger'
-import { downloadContentFromMessage, encryptedStream, generateThumbnail, getAudioDuration, getAudioWaveform, MediaDownloadOptions } from './messages-media'
+import { downloadContentFromMessage, encryptedStream, extractImageThumb, generateThumbnail, getAudioDuration, getAudioWaveform, getStream, MediaDownloadOptions } from './messages-media'
 
 type MediaUploadData = {
 	media: WAMediaUpload
@@ -38,6 +38,9 @@ type MediaUploadData = {
 	gifPlayback?: boolean
 	fileName?: string
 	jpegThumbnail?: string
+	thumbnail?: WAMediaUpload
+	thumbnailWidth?: number
+	thumbnailHeight?: number
 	mimetype?: string
 	width?: number
 	height?: number
@@ -45,6 +48,9 @@ type MediaUploadData = {
 	backgroundArgb?: number
 }
 
+/** width of the preview shown on document messages */
+const DOCUMENT_THUMBNAIL_WIDTH_PX = 480
+
 const MIMETYPE_MAP: { [T in MediaType]?: string } = {
 	image: 'image/jpeg',
 	video: 'video/mp4',
@@ -144,7 +150,7 @@ export const prepareWAMessageMedia = async(
 			const obj = WAProto.Message.decode(mediaBuff)
 			const key = `${mediaType}Message`
 
-			Object.assign(obj[key], { ...uploadData, media: undefined })
+			Object.assign(obj[key], { ...uploadData, media: undefined, thumbnail: undefined })
 
 			return obj
 		}
@@ -155,7 +161,9 @@ export const prepareWAMessageMedia = async(
 										(typeof uploadData['jpegThumbnail'] === 'undefined')
 	const requiresWaveformProcessing = mediaType === 'audio' && uploadData.ptt === true
 	const requiresAudioBackground = options.backgroundColor && mediaType === 'audio' && uploadData.ptt === true
-	const requiresOriginalForSomeProcessing = requiresDurationComputation || requiresThumbnailComputation
+	const requiresDocumentThumbnail = mediaType === 'document' && !!uploadData.thumbnail &&
+										(typeof uploadData.jpegThumbnail === 'undefined')
+	const requiresOriginalForSomeProcessing = requiresDurationComputation || requiresThumbnailComputation || requiresWaveformProcessing
 	const {
 		mediaKey,
 		encFilePath,
@@ -214,6 +222,18 @@ export const prepareWAMessageMedia = async(
 					uploadData.backgroundArgb = await assertColor(options.backgroundColor)
 					logger?.debug('computed backgroundColor audio status')
 				}
+
+				if(requiresDocumentThumbnail) {
+					const { stream } = await getStream(uploadData.thumbnail!, options.options)
+					const { buffer, original } = await extractImageThumb(stream, DOCUMENT_THUMBNAIL_WIDTH_PX)
+					uploadData.jpegThumbnail = buffer.toString('base64')
+					if(original.width && original.height) {
+						uploadData.thumbnailWidth = DOCUMENT_THUMBNAIL_WIDTH_PX
+						uploadData.thumbnailHeight = Math.round(original.height * DOCUMENT_THUMBNAIL_WIDTH_PX / original.width)
+					}
+
+					logger?.debug('generated document thumbnail')
+				}
 			} catch(error) {
 				logger?.warn({ trace: error.stack }, 'failed to obtain extra info')
 			}
@@ -245,7 +265,8 @@ export const prepareWAMessageMedia = async(
 				fileLength,
 				mediaKeyTimestamp: unixTimestampSeconds(),
 				...uploadData,
-				media: undefined
+				media: undefined,
+				thumbnail: undefined
 			}
 		)
 	})
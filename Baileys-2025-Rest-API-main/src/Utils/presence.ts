@@ -0,0 +1,25 @@
+import type { AnyMessageContent, PresenceData, WAPresence } from '../Types';
+import type { PresenceInfo } from '../types/api';
+
+export const PRESENCE_STATES: WAPresence[] = ['available', 'unavailable', 'composing', 'recording', 'paused'];
+
+// Longest typing indicator shown before a message, WhatsApp drops it after about half a minute anyway
+export const MAX_TYPING_MS = 25000;
+
+/**
+ * Voice notes are preceded by "recording audio", anything else by "typing"
+ */
+export const typingPresenceFor = (content: AnyMessageContent): 'composing' | 'recording' => {
+  return 'audio' in content && content.ptt ? 'recording' : 'composing';
+};
+
+/**
+ * Fold a presence update into the last known presence of a contact.
+ * WhatsApp only tells the last seen time when the contact goes offline, and not at all
+ * when their privacy settings hide it, so the previous one is kept otherwise.
+ */
+export const mergePresence = (previous: PresenceInfo | undefined, update: PresenceData, now = new Date()): PresenceInfo => ({
+  status: update.lastKnownPresence,
+  lastSeen: update.lastSeen ? new Date(update.lastSeen * 1000) : previous?.lastSeen,
+  updatedAt: now
+});
@@ -0,0 +1,83 @@
+import type { ContentValidationError } from './messageContent';
+
+const PLACEHOLDER_REGEX = /{{\s*([\w.-]+)\s*}}/g;
+
+/**
+ * Send options stored with a template, the ones given when sending it take precedence
+ */
+export interface TemplateOptions {
+  mentions?: string[];
+  viewOnce?: boolean;
+  ephemeralExpiration?: number;
+}
+
+/**
+ * Fill the {{variable}} placeholders of every string in the content,
+ * placeholders without a value are left as they are
+ */
+export const renderTemplate = <T>(content: T, variables: Record<string, string | number | boolean> = {}): T => {
+  if (typeof content === 'string') {
+    return content.replace(PLACEHOLDER_REGEX, (placeholder, name: string) => (
+      variables[name] !== undefined ? String(variables[name]) : placeholder
+    )) as unknown as T;
+  }
+
+  if (Array.isArray(content)) {
+    return content.map(item => renderTemplate(item, variables)) as unknown as T;
+  }
+
+  if (content && typeof content === 'object') {
+    const rendered: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(content)) {
+      rendered[key] = renderTemplate(value, variables);
+    }
+
+    return rendered as T;
+  }
+
+  return content;
+};
+
+/**
+ * Names of the placeholders in every string of the content, in order of appearance
+ */
+export const findPlaceholders = (content: unknown): string[] => {
+  const names = new Set<string>();
+
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(PLACEHOLDER_REGEX)) {
+        names.add(match[1]);
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  visit(content);
+  return Array.from(names);
+};
+
+/**
+ * Placeholders of the content left without a value
+ */
+export const findMissingVariables = (content: unknown, variables: Record<string, unknown> = {}): string[] => {
+  return findPlaceholders(content).filter(name => variables[name] === undefined || variables[name] === null);
+};
+
+/**
+ * Whether a request value can fill placeholders: an object of strings, numbers or booleans
+ */
+export const isTemplateVariables = (value: unknown): value is Record<string, string | number | boolean> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(item => ['string', 'number', 'boolean'].includes(typeof item));
+};
+
+/**
+ * Drop the problems of fields holding a placeholder, their value is only known once the template is rendered
+ */
+export const withoutPlaceholderErrors = (errors: ContentValidationError[]): ContentValidationError[] => {
+  return errors.filter(error => !findPlaceholders(error.value).length);
+};
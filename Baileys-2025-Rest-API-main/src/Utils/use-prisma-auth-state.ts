@@ -0,0 +1,159 @@
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { readdir } from 'fs/promises'
+import { proto } from '../../WAProto'
+import { AuthenticationCreds, AuthenticationState, SignalDataSet, SignalDataTypeMap } from '../Types'
+import { initAuthCreds } from './auth-utils'
+import { BufferJSON } from './generics'
+import { useMultiFileAuthState } from './use-multi-file-auth-state'
+
+// Buffers can't be stored as-is in a JSON column, encode them the same way the file store does
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const toJson = (value: any): Prisma.InputJsonValue => JSON.parse(JSON.stringify(value, BufferJSON.replacer))
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const fromJson = (value: Prisma.JsonValue): any => JSON.parse(JSON.stringify(value), BufferJSON.reviver)
+
+/**
+ * stores the full authentication state in Postgres through Prisma.
+ * Creds live in the `authData` column of the session row,
+ * signal keys (pre-keys, sessions, sender keys, app state sync keys & versions) in the `auth_keys` table.
+ *
+ * `set` writes every mutation in a single DB transaction,
+ * so a failed commit from `addTransactionCapability` can simply be retried.
+ * The session row must exist before the state is used.
+ * */
+export const usePrismaAuthState = async(
+	sessionId: string,
+	prisma: PrismaClient
+): Promise<{ state: AuthenticationState, saveCreds: () => Promise<void> }> => {
+	const session = await prisma.session.findUnique({
+		where: { sessionId },
+		select: { authData: true }
+	})
+	if(!session) {
+		throw new Error(`session ${sessionId} not found, create it before loading its auth state`)
+	}
+
+	const creds: AuthenticationCreds = session.authData ? fromJson(session.authData) : initAuthCreds()
+
+	return {
+		state: {
+			creds,
+			keys: {
+				get: async(type, ids) => {
+					const data: { [_: string]: SignalDataTypeMap[typeof type] } = { }
+					if(!ids.length) {
+						return data
+					}
+
+					const rows = await prisma.authKey.findMany({
+						where: { sessionId, type, keyId: { in: ids } },
+						select: { keyId: true, value: true }
+					})
+					for(const row of rows) {
+						let value = fromJson(row.value)
+						if(type === 'app-state-sync-key' && value) {
+							value = proto.Message.AppStateSyncKeyData.fromObject(value)
+						}
+
+						data[row.keyId] = value
+					}
+
+					return data
+				},
+				set: async(data) => {
+					const operations: Prisma.PrismaPromise<unknown>[] = []
+					for(const category in data) {
+						const removed: string[] = []
+						for(const id in data[category]) {
+							const value = data[category][id]
+							if(value) {
+								operations.push(
+									prisma.authKey.upsert({
+										where: { sessionId_type_keyId: { sessionId, type: category, keyId: id } },
+										update: { value: toJson(value) },
+										create: { sessionId, type: category, keyId: id, value: toJson(value) }
+									})
+								)
+							} else {
+								removed.push(id)
+							}
+						}
+
+						if(removed.length) {
+							operations.push(
+								prisma.authKey.deleteMany({
+									where: { sessionId, type: category, keyId: { in: removed } }
+								})
+							)
+						}
+					}
+
+					if(operations.length) {
+						await prisma.$transaction(operations)
+					}
+				},
+				clear: async() => {
+					await prisma.authKey.deleteMany({ where: { sessionId } })
+				}
+			}
+		},
+		saveCreds: async() => {
+			await prisma.session.update({
+				where: { sessionId },
+				data: { authData: toJson(creds) }
+			})
+		}
+	}
+}
+
+// longest first, the files of sender-key-memory also start with sender-key
+const KEY_TYPES: (keyof SignalDataTypeMap)[] = [
+	'app-state-sync-version',
+	'app-state-sync-key',
+	'sender-key-memory',
+	'sender-key',
+	'pre-key',
+	'session'
+]
+
+/**
+ * copies the auth state kept by `useMultiFileAuthState` in a folder to the Prisma store,
+ * so a session linked before the switch to Postgres resumes without being paired again.
+ * Resolves to false when the folder holds no creds.
+ * */
+export const importMultiFileAuthState = async(
+	sessionId: string,
+	folder: string,
+	prisma: PrismaClient
+): Promise<boolean> => {
+	const files = await readdir(folder).catch(() => [] as string[])
+	if(!files.includes('creds.json')) {
+		return false
+	}
+
+	const idsByType = new Map<keyof SignalDataTypeMap, string[]>()
+	for(const file of files) {
+		const type = KEY_TYPES.find(type => file.startsWith(`${type}-`))
+		if(type && file.endsWith('.json')) {
+			// undo the file name escaping of the file store, "::" only appears in sender key names
+			const id = file.slice(type.length + 1, -'.json'.length).replace(/__/g, '/').replace(/--/g, '::')
+			idsByType.set(type, [...(idsByType.get(type) || []), id])
+		}
+	}
+
+	const { state: fileState } = await useMultiFileAuthState(folder)
+	const { state, saveCreds } = await usePrismaAuthState(sessionId, prisma)
+
+	for(const [type, ids] of idsByType) {
+		const values = await fileState.keys.get(type, ids)
+		const data = Object.fromEntries(Object.entries(values).filter(([, value]) => !!value))
+		await state.keys.set({ [type]: data } as SignalDataSet)
+	}
+
+	// the creds go last, a session only counts as imported once they're stored
+	Object.assign(state.creds, fileState.creds)
+	await saveCreds()
+
+	return true
+}
@@ -0,0 +1,22 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Endpoints already sending as many deliveries as they may at once
+ */
+export const saturatedWebhookIds = (activeDeliveries: ReadonlyMap<string, number>, maxConcurrency: number): string[] =>
+  [...activeDeliveries]
+    .filter(([, active]) => active >= maxConcurrency)
+    .map(([webhookId]) => webhookId);
+
+/**
+ * Deliveries the worker may send now. Saturated endpoints are left out of the query,
+ * so their backlog can't fill the batch & hold up the deliveries of every other endpoint.
+ */
+export const dueDeliveriesWhere = (now: Date, saturated: string[]): Prisma.WebhookDeliveryWhereInput => ({
+  OR: [
+    { status: { in: ['PENDING', 'RETRYING'] }, nextRetry: null },
+    // DELIVERING rows past their lease were interrupted, e.g. by a restart
+    { status: { in: ['PENDING', 'RETRYING', 'DELIVERING'] }, nextRetry: { lte: now } }
+  ],
+  ...(saturated.length ? { webhookId: { notIn: saturated } } : {})
+});
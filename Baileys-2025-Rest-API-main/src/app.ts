@@ -15,6 +15,12 @@ import { authMiddleware } from './middleware/auth';
 import { logger } from './utils/apiLogger';
 import { DatabaseService } from './services/DatabaseService';
 import { WhatsAppService } from './services/WhatsAppService';
+import { WebhookService } from './services/WebhookService';
+import { SocketService } from './services/SocketService';
+import { SchedulerService } from './services/SchedulerService';
+import { CampaignService } from './services/CampaignService';
+import { MediaLibraryService } from './services/MediaLibraryService';
+import { ContactCheckService } from './services/ContactCheckService';
 
 // Routes
 import authRoutes from './routes/auth';
@@ -22,10 +28,14 @@ import sessionRoutes from './routes/sessions';
 import messageRoutes from './routes/messages';
 import chatRoutes from './routes/chats';
 import groupRoutes from './routes/groups';
+import communityRoutes from './routes/communities';
 import contactRoutes from './routes/contacts';
-import mediaRoutes from './routes/media';
+import mediaRoutes, { signedMediaRoutes } from './routes/media';
 import businessRoutes from './routes/business';
 import webhookRoutes from './routes/webhooks';
+import scheduledMessageRoutes from './routes/scheduled';
+import campaignRoutes from './routes/campaigns';
+import templateRoutes from './routes/templates';
 import dashboardRoutes from './routes/dashboard';
 
 // Load environment variables
@@ -114,10 +124,15 @@ app.use('/api/sessions', authMiddleware, sessionRoutes);
 app.use('/api/messages', authMiddleware, messageRoutes);
 app.use('/api/chats', authMiddleware, chatRoutes);
 app.use('/api/groups', authMiddleware, groupRoutes);
+app.use('/api/communities', authMiddleware, communityRoutes);
 app.use('/api/contacts', authMiddleware, contactRoutes);
+app.use('/api/media/files', signedMediaRoutes);
 app.use('/api/media', authMiddleware, mediaRoutes);
 app.use('/api/business', authMiddleware, businessRoutes);
 app.use('/api/webhooks', authMiddleware, webhookRoutes);
+app.use('/api/scheduled-messages', authMiddleware, scheduledMessageRoutes);
+app.use('/api/campaigns', authMiddleware, campaignRoutes);
+app.use('/api/templates', authMiddleware, templateRoutes);
 app.use('/dashboard', dashboardRoutes);
 
 // Serve static files for dashboard
@@ -131,25 +146,27 @@ app.get('/', (req, res) => {
 // Error handling
 app.use(errorHandler);
 
-// Socket.IO for real-time updates
-io.on('connection', (socket) => {
-  logger.info(`Client connected: ${socket.id}`);
-
-  socket.on('disconnect', () => {
-    logger.info(`Client disconnected: ${socket.id}`);
-  });
-});
+// Socket.IO for real-time updates, authenticated & scoped to the user's sessions
+new SocketService(io).initialize();
 
 // Initialize services
 const databaseService = new DatabaseService();
-const whatsAppService = new WhatsAppService(io);
+const mediaLibrary = new MediaLibraryService();
+const whatsAppService = new WhatsAppService(io, mediaLibrary);
+const webhookWorker = new WebhookService();
+const scheduler = new SchedulerService(whatsAppService);
+const campaignService = new CampaignService(whatsAppService);
+const contactChecker = new ContactCheckService(whatsAppService);
 
 // Export for use in routes
-export { whatsAppService };
+export { whatsAppService, scheduler, campaignService, mediaLibrary, contactChecker };
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  webhookWorker.stop();
+  scheduler.stop();
+  campaignService.stop();
   await whatsAppService.shutdown();
   await databaseService.disconnect();
   server.close(() => {
@@ -160,6 +177,9 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  webhookWorker.stop();
+  scheduler.stop();
+  campaignService.stop();
   await whatsAppService.shutdown();
   await databaseService.disconnect();
   server.close(() => {
@@ -174,6 +194,20 @@ server.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`API Documentation available at http://localhost:${PORT}/api-docs`);
   logger.info(`Dashboard available at http://localhost:${PORT}/dashboard`);
+
+  // Deliver queued webhooks, including the ones left over from before a restart
+  webhookWorker.start();
+
+  // Send scheduled messages, the ones that came due during a restart go out first
+  scheduler.start();
+
+  // Carry on with the running campaigns
+  campaignService.start();
+
+  // Reopen sessions that were connected before the last shutdown
+  whatsAppService.restoreSessions().catch((error) => {
+    logger.error('Failed to restore sessions:', error);
+  });
 });
 
 export { app, io, whatsAppService };
@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
-import { AuthenticatedRequest, ApiError } from '../types/api';
+import { AuthenticatedRequest, AuthenticatedUser, ApiError } from '../types/api';
 
 // Extend the AuthenticatedRequest interface to include startTime
 declare module '../types/api' {
@@ -13,6 +13,53 @@ import { logger } from '../utils/apiLogger';
 
 const prisma = new PrismaClient();
 
+const userSelect = {
+  id: true,
+  email: true,
+  role: true,
+  apiKey: true,
+  isActive: true
+};
+
+/**
+ * Resolve the user behind a JWT or API key, shared by the REST and Socket.IO authentication
+ */
+export const authenticateToken = async (token: string): Promise<{ user?: AuthenticatedUser; error?: string }> => {
+  // Check if it's a JWT token or API key
+  if (token.startsWith('ey')) {
+    // JWT token
+    let decoded: any;
+    try {
+      decoded = jwt.verify(token, process.env.JWT_SECRET!);
+    } catch (jwtError) {
+      return { error: 'Invalid JWT token.' };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: userSelect
+    });
+
+    if (!user || !user.isActive) {
+      return { error: 'Invalid token or user not active.' };
+    }
+
+    return { user };
+  }
+
+  // API Key
+  const user = await prisma.user.findUnique({
+    where: { apiKey: token },
+    select: userSelect
+  });
+
+  if (!user || !user.isActive) {
+    return { error: 'Invalid API key or user not active.' };
+  }
+
+  return { user };
+};
+
 export const authMiddleware = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -31,62 +78,17 @@ export const authMiddleware = async (
       });
     }
 
-    // Check if it's a JWT token or API key
-    if (token.startsWith('ey')) {
-      // JWT token
-      try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-        const user = await prisma.user.findUnique({
-          where: { id: decoded.userId },
-          select: {
-            id: true,
-            email: true,
-            role: true,
-            apiKey: true,
-            isActive: true
-          }
-        });
-
-        if (!user || !user.isActive) {
-          return res.status(401).json({
-            success: false,
-            error: 'Invalid token or user not active.',
-            timestamp: new Date().toISOString()
-          });
-        }
-
-        req.user = user;
-      } catch (jwtError) {
-        return res.status(401).json({
-          success: false,
-          error: 'Invalid JWT token.',
-          timestamp: new Date().toISOString()
-        });
-      }
-    } else {
-      // API Key
-      const user = await prisma.user.findUnique({
-        where: { apiKey: token },
-        select: {
-          id: true,
-          email: true,
-          role: true,
-          apiKey: true,
-          isActive: true
-        }
+    const { user, error } = await authenticateToken(token);
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error,
+        timestamp: new Date().toISOString()
       });
-
-      if (!user || !user.isActive) {
-        return res.status(401).json({
-          success: false,
-          error: 'Invalid API key or user not active.',
-          timestamp: new Date().toISOString()
-        });
-      }
-
-      req.user = user;
     }
 
+    req.user = user;
+
     // Log API usage
     await logApiUsage(req);
 
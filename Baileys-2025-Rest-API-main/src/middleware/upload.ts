@@ -0,0 +1,23 @@
+import { RequestHandler } from 'express';
+import fs from 'fs';
+import multer from 'multer';
+
+// Uploads are written to a temporary file & streamed from there, any type of file is accepted
+export const upload = multer({
+  storage: multer.diskStorage({}),
+  limits: {
+    fileSize: parseInt(process.env.MAX_FILE_SIZE || '50') * 1024 * 1024, // 50MB default
+    files: 1
+  }
+});
+
+// Remove the temporary file of an upload once the request is over, whatever its outcome
+export const removeUploadOnClose: RequestHandler = (req, res, next) => {
+  res.on('close', () => {
+    if (req.file) {
+      fs.unlink(req.file.path, () => undefined);
+    }
+  });
+
+  next();
+};
@@ -1,12 +1,108 @@
 import { Router } from 'express';
-import { param } from 'express-validator';
-import { handleValidationErrors, asyncHandler } from '../middleware/errorHandler';
+import { body, param, query } from 'express-validator';
+import multer from 'multer';
+import { handleValidationErrors, asyncHandler, createApiError } from '../middleware/errorHandler';
 import { sessionMiddleware } from '../middleware/auth';
 import { whatsAppService } from '../app';
-import { ApiResponse } from '../types/api';
+import {
+  ApiResponse,
+  BusinessProfile,
+  CatalogPage,
+  DaySchedule,
+  Product,
+  ProductCollection
+} from '../types/api';
+import { Product as WAProduct, WABusinessProfile, WAMediaUpload } from '../index';
 
 const router = Router();
 
+// Configure multer for product image uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: parseInt(process.env.MAX_FILE_SIZE || '50') * 1024 * 1024,
+    files: 10
+  },
+  fileFilter: (req, file, cb) => {
+    if (['image/jpeg', 'image/png', 'image/webp'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('File type not supported'));
+    }
+  }
+});
+
+const WEEK_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// WhatsApp sends business hours as minutes since midnight
+const formatMinutes = (minutes?: number) => {
+  if (minutes === undefined || isNaN(minutes)) {
+    return '';
+  }
+
+  const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+  return `${hours}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+const toBusinessProfile = (profile: WABusinessProfile): BusinessProfile => {
+  const config = profile.business_hours?.business_config || profile.business_hours?.config || [];
+
+  return {
+    jid: profile.wid,
+    description: profile.description,
+    email: profile.email,
+    website: profile.website?.[0],
+    category: profile.category,
+    address: profile.address,
+    hours: profile.business_hours?.timezone ? {
+      timezone: profile.business_hours.timezone,
+      schedule: config.map((day): DaySchedule => ({
+        day: WEEK_DAYS.indexOf(day.day_of_week),
+        open: day.mode === 'open_24h' ? '00:00' : formatMinutes(Number(day.open_time)),
+        close: day.mode === 'open_24h' ? '24:00' : formatMinutes(Number(day.close_time)),
+        mode: day.mode
+      }))
+    } : undefined
+  };
+};
+
+const toProduct = (product: WAProduct): Product => ({
+  id: product.id,
+  name: product.name,
+  description: product.description,
+  price: product.price,
+  currency: product.currency,
+  images: Object.values(product.imageUrls || {}).filter(Boolean),
+  url: product.url,
+  retailerId: product.retailerId,
+  isHidden: product.isHidden
+});
+
+// Baileys reads any other URL as a path on the server
+const HTTP_URL_OPTIONS = { protocols: ['http', 'https'], require_protocol: true };
+
+// Uploaded files are sent as-is, URLs are downloaded by Baileys unless already hosted on WhatsApp
+const collectProductImages = (files: Express.Multer.File[] | undefined, imageUrls: string[] | undefined): WAMediaUpload[] => {
+  const invalid = (imageUrls || []).filter(url => !/^https?:\/\//i.test(url));
+  if (invalid.length) {
+    throw createApiError('Image URLs must be http(s) URLs', 400, 'INVALID_IMAGE_URL', { invalid });
+  }
+
+  return [
+    ...(imageUrls || []).map(url => ({ url })),
+    ...(files || []).map(file => file.buffer)
+  ];
+};
+
+// Multipart forms send every field as a string
+const parseImageUrls = (value: unknown): string[] | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  return Array.isArray(value) ? value : [String(value)];
+};
+
 /**
  * @swagger
  * /api/business/{sessionId}/profile:
@@ -21,14 +117,99 @@ const router = Router();
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: jid
+ *         schema:
+ *           type: string
+ *         description: Business to look up, defaults to the session's own number
  *     responses:
  *       200:
  *         description: Business profile retrieved successfully
+ *       404:
+ *         description: The number is not a business account
  */
 router.get('/:sessionId/profile', [
-  param('sessionId').notEmpty()
+  param('sessionId').notEmpty(),
+  query('jid').optional().isString()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const jid = (req.query.jid as string) || session.socket.user!.id;
+    const profile = await session.socket.getBusinessProfile(jid);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Business profile not found',
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      data: toBusinessProfile(profile),
+      timestamp: new Date().toISOString()
+    } as ApiResponse<BusinessProfile>);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/business/{sessionId}/catalog:
+ *   get:
+ *     summary: Get a page of the product catalog
+ *     tags: [Business]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: jid
+ *         schema:
+ *           type: string
+ *         description: Business whose catalog to fetch, defaults to the session's own number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor returned by the previous page
+ *     responses:
+ *       200:
+ *         description: Catalog page retrieved successfully
+ */
+router.get('/:sessionId/catalog', [
+  param('sessionId').notEmpty(),
+  query('jid').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('cursor').optional().isString()
 ], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
+  const { jid, limit = 10, cursor } = req.query;
 
   const session = await whatsAppService.getSession(sessionId);
   if (!session?.socket) {
@@ -40,10 +221,439 @@ router.get('/:sessionId/profile', [
   }
 
   try {
-    // This would need to be implemented with proper business profile retrieval
-    res.status(501).json({
+    const catalog = await session.socket.getCatalog({
+      jid: jid as string,
+      limit: parseInt(limit as string),
+      cursor: cursor as string
+    });
+
+    res.json({
+      success: true,
+      data: {
+        products: catalog.products.map(toProduct),
+        nextCursor: catalog.nextPageCursor
+      },
+      timestamp: new Date().toISOString()
+    } as ApiResponse<CatalogPage>);
+  } catch (error) {
+    res.status(400).json({
       success: false,
-      error: 'Business profile not yet implemented',
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/business/{sessionId}/collections:
+ *   get:
+ *     summary: Get catalog collections
+ *     tags: [Business]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: jid
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 51
+ *     responses:
+ *       200:
+ *         description: Collections retrieved successfully
+ */
+router.get('/:sessionId/collections', [
+  param('sessionId').notEmpty(),
+  query('jid').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { jid, limit = 51 } = req.query;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const { collections } = await session.socket.getCollections(jid as string, parseInt(limit as string));
+
+    res.json({
+      success: true,
+      data: collections.map((collection): ProductCollection => ({
+        id: collection.id,
+        name: collection.name,
+        status: collection.status?.status,
+        products: collection.products.map(toProduct)
+      })),
+      timestamp: new Date().toISOString()
+    } as ApiResponse<ProductCollection[]>);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/business/{sessionId}/products:
+ *   post:
+ *     summary: Create a product in the catalog
+ *     tags: [Business]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - price
+ *               - currency
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               price:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *                 description: ISO 4217 code, e.g. USD
+ *               retailerId:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *               isHidden:
+ *                 type: boolean
+ *               originCountryCode:
+ *                 type: string
+ *               imageUrls:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Product created successfully
+ */
+router.post('/:sessionId/products', upload.array('images', 10), [
+  param('sessionId').notEmpty(),
+  body('name').notEmpty().trim().isLength({ max: 150 }),
+  body('description').optional().trim(),
+  body('price').isFloat({ min: 0 }),
+  body('currency').isLength({ min: 3, max: 3 }),
+  body('retailerId').optional().trim(),
+  body('url').optional().isURL(),
+  // checks every URL of an array, and the single one a multipart form sends
+  body('imageUrls').optional().isURL(HTTP_URL_OPTIONS),
+  body('isHidden').optional().isBoolean(),
+  body('originCountryCode').optional().isLength({ min: 2, max: 2 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { name, description, price, currency, retailerId, url, isHidden, originCountryCode } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const images = collectProductImages(req.files as Express.Multer.File[], parseImageUrls(req.body.imageUrls));
+  if (!images.length) {
+    return res.status(400).json({
+      success: false,
+      error: 'At least one product image is required',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const product = await session.socket.productCreate({
+      name,
+      description: description || '',
+      price: parseFloat(price),
+      currency: currency.toUpperCase(),
+      retailerId,
+      url,
+      isHidden: isHidden === true || isHidden === 'true',
+      originCountryCode,
+      images
+    });
+
+    res.status(201).json({
+      success: true,
+      data: toProduct(product),
+      message: 'Product created successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse<Product>);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/business/{sessionId}/products/{productId}:
+ *   put:
+ *     summary: Update a product in the catalog
+ *     description: Existing images are kept when passed back in imageUrls
+ *     tags: [Business]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - price
+ *               - currency
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               price:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               retailerId:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *               isHidden:
+ *                 type: boolean
+ *               imageUrls:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               images:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ */
+router.put('/:sessionId/products/:productId', upload.array('images', 10), [
+  param('sessionId').notEmpty(),
+  param('productId').notEmpty(),
+  body('name').notEmpty().trim().isLength({ max: 150 }),
+  body('description').optional().trim(),
+  body('price').isFloat({ min: 0 }),
+  body('currency').isLength({ min: 3, max: 3 }),
+  body('retailerId').optional().trim(),
+  body('url').optional().isURL(),
+  // checks every URL of an array, and the single one a multipart form sends
+  body('imageUrls').optional().isURL(HTTP_URL_OPTIONS),
+  body('isHidden').optional().isBoolean()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, productId } = req.params;
+  const { name, description, price, currency, retailerId, url, isHidden } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const product = await session.socket.productUpdate(productId, {
+      name,
+      description: description || '',
+      price: parseFloat(price),
+      currency: currency.toUpperCase(),
+      retailerId,
+      url,
+      isHidden: isHidden === undefined ? undefined : isHidden === true || isHidden === 'true',
+      images: collectProductImages(req.files as Express.Multer.File[], parseImageUrls(req.body.imageUrls))
+    });
+
+    res.json({
+      success: true,
+      data: toProduct(product),
+      message: 'Product updated successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse<Product>);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/business/{sessionId}/products/{productId}:
+ *   delete:
+ *     summary: Delete a product from the catalog
+ *     tags: [Business]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Product deleted successfully
+ *       404:
+ *         description: Product not found
+ */
+router.delete('/:sessionId/products/:productId', [
+  param('sessionId').notEmpty(),
+  param('productId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, productId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const { deleted } = await session.socket.productDelete([productId]);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    }
+
+    res.json({
+      success: true,
+      message: 'Product deleted successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/business/{sessionId}/orders/{orderId}:
+ *   get:
+ *     summary: Get the details of an order
+ *     tags: [Business]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Base64 token from the orderMessage
+ *     responses:
+ *       200:
+ *         description: Order details retrieved successfully
+ */
+router.get('/:sessionId/orders/:orderId', [
+  param('sessionId').notEmpty(),
+  param('orderId').notEmpty(),
+  query('token').notEmpty().isString()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, orderId } = req.params;
+  const { token } = req.query;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const order = await session.socket.getOrderDetails(orderId, token as string);
+
+    res.json({
+      success: true,
+      data: order,
       timestamp: new Date().toISOString()
     } as ApiResponse);
   } catch (error) {
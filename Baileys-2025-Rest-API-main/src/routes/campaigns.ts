@@ -0,0 +1,556 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import multer from 'multer';
+import { handleValidationErrors, asyncHandler, createApiError } from '../middleware/errorHandler';
+import { sessionMiddleware } from '../middleware/auth';
+import { campaignService } from '../app';
+import { DatabaseService } from '../services/DatabaseService';
+import { ApiResponse, PaginatedResponse } from '../types/api';
+import { buildMessageContent, SEND_MESSAGE_TYPES, SendMessageType } from '../Utils/messageContent';
+import { CampaignRecipientInput, RecipientListError, normalizeRecipients, parseRecipientsCsv } from '../Utils/campaign';
+import { findMissingVariables, isTemplateVariables, renderTemplate } from '../Utils/template';
+
+const router = Router();
+const dbService = new DatabaseService();
+
+const CAMPAIGN_STATUSES = ['RUNNING', 'PAUSED', 'COMPLETED', 'CANCELLED'];
+const RECIPIENT_STATUSES = ['QUEUED', 'SENT', 'DELIVERED', 'READ', 'FAILED', 'NOT_ON_WHATSAPP'];
+
+const maxRecipients = parseInt(process.env.CAMPAIGN_MAX_RECIPIENTS || '10000');
+
+// Recipient lists are uploaded as CSV or JSON
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024,
+    files: 1
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ['text/csv', 'text/plain', 'application/json', 'application/vnd.ms-excel'];
+
+    if (allowedTypes.includes(file.mimetype) || /\.(csv|json)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Recipient lists must be CSV or JSON files'));
+    }
+  }
+});
+
+// Multipart requests carry the objects as JSON strings
+const parseJsonField = (value: unknown) => {
+  if (typeof value !== 'string') return value;
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+};
+
+/**
+ * Recipients given as phone numbers, or objects with a phoneNumber (or phone, jid) & variables
+ */
+const readRecipientList = (list: unknown[]): CampaignRecipientInput[] => {
+  return list.map((item: any) => (
+    typeof item === 'object' && item !== null
+      ? { phoneNumber: String(item.phoneNumber || item.phone || item.jid || ''), variables: item.variables }
+      : { phoneNumber: String(item) }
+  ));
+};
+
+const readUploadedRecipients = (file: Express.Multer.File): { recipients: CampaignRecipientInput[]; errors: RecipientListError[] } => {
+  const text = file.buffer.toString('utf8');
+
+  if (file.mimetype === 'application/json' || /\.json$/i.test(file.originalname)) {
+    const list = parseJsonField(text);
+    if (!Array.isArray(list)) {
+      return { recipients: [], errors: [{ line: 1, message: 'The JSON file must hold a list of recipients' }] };
+    }
+
+    return { recipients: readRecipientList(list), errors: [] };
+  }
+
+  return parseRecipientsCsv(text);
+};
+
+/**
+ * @swagger
+ * /api/campaigns/{sessionId}:
+ *   post:
+ *     summary: Create a broadcast campaign
+ *     description: |
+ *       The message takes the same `type`, `content` & `options` as the send endpoint, or a `templateId`
+ *       instead of `type` & `content`. Its `{{variable}}` placeholders are filled with the variables of
+ *       each recipient, falling back on `variables`; recipients left without a value for one of them are rejected.
+ *       Recipients are given in `recipients`, or uploaded as `file`: a CSV with a phone column whose other
+ *       columns are the variables, or a JSON list.
+ *       In multipart requests, `content`, `options`, `variables` & `recipients` are JSON strings.
+ *
+ *       Numbers are looked up on WhatsApp before sending, the ones not registered are skipped.
+ *       Messages go out one at a time, every minIntervalMs to maxIntervalMs, and the session sends
+ *       at most dailyLimit campaign messages in 24 hours.
+ *     tags: [Campaigns]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - recipients
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 default: text
+ *               content:
+ *                 type: object
+ *               templateId:
+ *                 type: string
+ *                 description: Instead of type & content
+ *               variables:
+ *                 type: object
+ *                 description: Values shared by every recipient
+ *               options:
+ *                 type: object
+ *               recipients:
+ *                 type: array
+ *                 items:
+ *                   oneOf:
+ *                     - type: string
+ *                     - type: object
+ *                       properties:
+ *                         phoneNumber:
+ *                           type: string
+ *                         variables:
+ *                           type: object
+ *               minIntervalMs:
+ *                 type: integer
+ *               maxIntervalMs:
+ *                 type: integer
+ *               dailyLimit:
+ *                 type: integer
+ *               startAt:
+ *                 type: string
+ *                 format: date-time
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - file
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *               content:
+ *                 type: string
+ *               templateId:
+ *                 type: string
+ *               variables:
+ *                 type: string
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Campaign created successfully
+ *       404:
+ *         description: Template not found
+ *       422:
+ *         description: Invalid content or recipient list
+ */
+router.post('/:sessionId', upload.single('file'), [
+  param('sessionId').notEmpty(),
+  body('name').isString().trim().isLength({ min: 1, max: 255 }),
+  body('type').optional().isIn(SEND_MESSAGE_TYPES as unknown as string[]),
+  body('content').if(body('templateId').not().exists()).customSanitizer(parseJsonField).isObject(),
+  body('templateId').optional().isString().notEmpty(),
+  body('variables').optional().customSanitizer(parseJsonField)
+    .custom(isTemplateVariables).withMessage('must be an object of strings, numbers or booleans'),
+  body('options').optional().customSanitizer(parseJsonField).isObject(),
+  body('options.mentions').optional().isArray(),
+  body('options.viewOnce').optional().isBoolean(),
+  body('options.ephemeralExpiration').optional().isInt({ min: 0 }),
+  body('recipients').optional().customSanitizer(parseJsonField).isArray(),
+  body('minIntervalMs').optional().isInt({ min: 1000, max: 3600000 }).toInt(),
+  body('maxIntervalMs').optional().isInt({ min: 1000, max: 3600000 }).toInt(),
+  body('dailyLimit').optional().isInt({ min: 1, max: 100000 }).toInt(),
+  body('startAt').optional().isISO8601()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { name, templateId, variables = {}, minIntervalMs, maxIntervalMs, dailyLimit, startAt } = req.body;
+  let { type = 'text', content, options = {} } = req.body;
+
+  if (templateId) {
+    const template = await dbService.getUserTemplate(templateId, req.user!.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    }
+
+    type = template.type as SendMessageType;
+    content = template.content;
+    options = { ...(template.options as object || {}), ...options };
+  }
+
+  if (!req.file && !req.body.recipients) {
+    throw createApiError('Recipients are required, as a list or an uploaded file', 400, 'MISSING_RECIPIENTS');
+  }
+
+  const list = req.file
+    ? readUploadedRecipients(req.file)
+    : { recipients: readRecipientList(req.body.recipients), errors: [] as RecipientListError[] };
+
+  if (list.recipients.length > maxRecipients) {
+    throw createApiError(`A campaign can have at most ${maxRecipients} recipients`, 422, 'TOO_MANY_RECIPIENTS');
+  }
+
+  // Shared variables are copied onto every recipient, whose own values take precedence
+  const { recipients, rejected, duplicates } = normalizeRecipients(
+    list.recipients.map(recipient => (
+      isTemplateVariables(recipient.variables ?? {})
+        ? { ...recipient, variables: { ...variables, ...recipient.variables } }
+        : recipient
+    )),
+    recipient => {
+      if (!isTemplateVariables(recipient.variables)) {
+        return 'Variables must be an object of strings, numbers or booleans';
+      }
+
+      const missing = findMissingVariables(content, recipient.variables);
+      return missing.length ? `Missing variables: ${missing.join(', ')}` : undefined;
+    }
+  );
+
+  if (!recipients.length) {
+    throw createApiError('No valid recipients', 422, 'INVALID_RECIPIENTS', { errors: list.errors, rejected });
+  }
+
+  // Check the message renders for the first recipient, the others are checked as they are sent
+  const [sample] = recipients;
+  const built = buildMessageContent(type, renderTemplate(content, sample.variables), sample.jid, {
+    mentions: options.mentions,
+    viewOnce: options.viewOnce
+  });
+
+  if (!built.content) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', built.errors);
+  }
+
+  const campaign = await campaignService.createCampaign({
+    sessionId,
+    name,
+    type,
+    content,
+    options: {
+      mentions: options.mentions,
+      viewOnce: options.viewOnce,
+      ephemeralExpiration: options.ephemeralExpiration
+    },
+    recipients,
+    minIntervalMs,
+    maxIntervalMs,
+    dailyLimit,
+    startAt: startAt ? new Date(startAt) : undefined,
+    createdBy: req.user?.id,
+    templateId
+  });
+
+  res.status(201).json({
+    success: true,
+    data: {
+      campaign,
+      recipients: {
+        accepted: recipients.length,
+        duplicates,
+        rejected,
+        errors: list.errors
+      }
+    },
+    message: 'Campaign created successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/campaigns/{sessionId}:
+ *   get:
+ *     summary: List the campaigns of a session
+ *     tags: [Campaigns]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [RUNNING, PAUSED, COMPLETED, CANCELLED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Campaigns retrieved successfully
+ */
+router.get('/:sessionId', [
+  param('sessionId').notEmpty(),
+  query('status').optional().isIn(CAMPAIGN_STATUSES),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { page = 1, limit = 50, status } = req.query;
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { campaigns, total } = await campaignService.getCampaigns(sessionId, {
+    page: pageNumber,
+    limit: limitNumber,
+    status: status as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: campaigns,
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<typeof campaigns[number]>);
+}));
+
+/**
+ * @swagger
+ * /api/campaigns/{sessionId}/{campaignId}:
+ *   get:
+ *     summary: Get a campaign & its progress
+ *     tags: [Campaigns]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign retrieved successfully
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/:sessionId/:campaignId', [
+  param('sessionId').notEmpty(),
+  param('campaignId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, campaignId } = req.params;
+
+  const campaign = await campaignService.getCampaign(sessionId, campaignId);
+  if (!campaign) {
+    return res.status(404).json({
+      success: false,
+      error: 'Campaign not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      ...campaign,
+      progress: await campaignService.getCampaignProgress(campaignId)
+    },
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/campaigns/{sessionId}/{campaignId}/recipients:
+ *   get:
+ *     summary: List the recipients of a campaign with their status
+ *     tags: [Campaigns]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [QUEUED, SENT, DELIVERED, READ, FAILED, NOT_ON_WHATSAPP]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Recipients retrieved successfully
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/:sessionId/:campaignId/recipients', [
+  param('sessionId').notEmpty(),
+  param('campaignId').notEmpty(),
+  query('status').optional().isIn(RECIPIENT_STATUSES),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 500 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, campaignId } = req.params;
+  const { page = 1, limit = 50, status } = req.query;
+
+  const campaign = await campaignService.getCampaign(sessionId, campaignId);
+  if (!campaign) {
+    return res.status(404).json({
+      success: false,
+      error: 'Campaign not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { recipients, total } = await campaignService.getCampaignRecipients(campaignId, {
+    page: pageNumber,
+    limit: limitNumber,
+    status: status as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: recipients,
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<typeof recipients[number]>);
+}));
+
+const STATUS_ACTIONS = {
+  pause: { method: 'pauseCampaign', done: 'paused' },
+  resume: { method: 'resumeCampaign', done: 'resumed' },
+  cancel: { method: 'cancelCampaign', done: 'cancelled' }
+} as const;
+
+/**
+ * @swagger
+ * /api/campaigns/{sessionId}/{campaignId}/{action}:
+ *   post:
+ *     summary: Pause, resume or cancel a campaign
+ *     description: Running campaigns can be paused, paused ones resumed, and both cancelled
+ *     tags: [Campaigns]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: action
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [pause, resume, cancel]
+ *     responses:
+ *       200:
+ *         description: Campaign status changed successfully
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: The action doesn't apply to the campaign status
+ */
+router.post('/:sessionId/:campaignId/:action(pause|resume|cancel)', [
+  param('sessionId').notEmpty(),
+  param('campaignId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, campaignId } = req.params;
+  const action = STATUS_ACTIONS[req.params.action as keyof typeof STATUS_ACTIONS];
+
+  const existing = await campaignService.getCampaign(sessionId, campaignId);
+  if (!existing) {
+    return res.status(404).json({
+      success: false,
+      error: 'Campaign not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const campaign = await campaignService[action.method](sessionId, campaignId);
+  if (!campaign) {
+    return res.status(409).json({
+      success: false,
+      error: `Campaign is ${existing.status.toLowerCase()} and can't be ${action.done}`,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: campaign,
+    message: `Campaign ${action.done} successfully`,
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+export default router;
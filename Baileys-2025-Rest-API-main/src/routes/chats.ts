@@ -411,4 +411,148 @@ router.post('/:sessionId/:chatId/mark-read', [
   }
 }));
 
+/**
+ * @swagger
+ * /api/chats/{sessionId}/{chatId}/presence:
+ *   post:
+ *     summary: Show a presence in a chat
+ *     description: |
+ *       `composing` shows "typing...", `recording` shows "recording audio...", until `paused` is sent
+ *       or WhatsApp drops it after about 25 seconds. To type before a message, the send endpoints take `typingMs`.
+ *     tags: [Chats]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - presence
+ *             properties:
+ *               presence:
+ *                 type: string
+ *                 enum: [composing, recording, paused]
+ *     responses:
+ *       200:
+ *         description: Presence sent successfully
+ */
+router.post('/:sessionId/:chatId/presence', [
+  param('sessionId').notEmpty(),
+  param('chatId').notEmpty(),
+  body('presence').isIn(['composing', 'recording', 'paused'])
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, chatId } = req.params;
+
+  try {
+    await whatsAppService.setPresence(sessionId, req.body.presence, chatId);
+
+    res.json({
+      success: true,
+      message: 'Presence sent successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/chats/{sessionId}/{chatId}/history:
+ *   post:
+ *     summary: Request older messages of a chat
+ *     description: |
+ *       Asks the phone for messages sent before the oldest one stored for the chat.
+ *       They are delivered asynchronously as an ON_DEMAND history sync, saved to the database
+ *       and announced with the history.sync webhook.
+ *     tags: [Chats]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *                 default: 50
+ *     responses:
+ *       202:
+ *         description: History requested
+ *       404:
+ *         description: No stored message in the chat to fetch history before
+ */
+router.post('/:sessionId/:chatId/history', [
+  param('sessionId').notEmpty(),
+  param('chatId').notEmpty(),
+  body('count').optional().isInt({ min: 1, max: 50 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, chatId } = req.params;
+  const { count = 50 } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const request = await whatsAppService.fetchMessageHistory(sessionId, chatId, parseInt(count));
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        error: 'No stored message in this chat to fetch history before',
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    }
+
+    res.status(202).json({
+      success: true,
+      data: request,
+      message: 'History requested, messages will arrive with a history sync',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
 export default router;
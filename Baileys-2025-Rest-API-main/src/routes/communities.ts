@@ -0,0 +1,647 @@
+import { Router } from 'express';
+import { param, body, query } from 'express-validator';
+import { Group } from '@prisma/client';
+import { handleValidationErrors, asyncHandler, createApiError } from '../middleware/errorHandler';
+import { sessionMiddleware } from '../middleware/auth';
+import { whatsAppService } from '../app';
+import { DatabaseService } from '../services/DatabaseService';
+import { ApiResponse, PaginatedResponse } from '../types/api';
+import { buildMessageContent, SEND_MESSAGE_TYPES } from '../Utils/messageContent';
+
+const router = Router();
+const dbService = new DatabaseService();
+
+const toCommunityResponse = (community: Group) => ({
+  id: community.jid,
+  subject: community.subject,
+  description: community.description,
+  owner: community.owner,
+  isAdmin: community.isAdmin,
+  size: community.size,
+  updatedAt: community.updatedAt
+});
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}:
+ *   get:
+ *     summary: List the communities of the session
+ *     description: Served from the stored groups, see GET /api/groups/{sessionId} to refresh them
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: admin
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         description: Part of the subject
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Communities retrieved successfully
+ */
+router.get('/:sessionId', [
+  param('sessionId').notEmpty(),
+  query('admin').optional().isBoolean().toBoolean(),
+  query('search').optional().isString().trim(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { page = 1, limit = 50, search } = req.query;
+  const admin = req.query.admin as unknown as boolean | undefined;
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { groups, total } = await dbService.getGroups(sessionId, {
+    page: pageNumber,
+    limit: limitNumber,
+    isAdmin: admin,
+    isCommunity: true,
+    search: search as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: groups.map(toCommunityResponse),
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<ReturnType<typeof toCommunityResponse>>);
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/create:
+ *   post:
+ *     summary: Create a community
+ *     description: WhatsApp creates the announcement group of the community along with it
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - subject
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Community created successfully
+ */
+router.post('/:sessionId/create', [
+  param('sessionId').notEmpty(),
+  body('subject').notEmpty().trim().isLength({ min: 1, max: 100 }),
+  body('description').optional().trim().isLength({ max: 2048 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { subject, description } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const community = await session.socket.communityCreate(subject, description);
+
+    res.json({
+      success: true,
+      data: community,
+      message: 'Community created successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/{communityId}/metadata:
+ *   get:
+ *     summary: Get community metadata
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: communityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Community metadata retrieved successfully
+ */
+router.get('/:sessionId/:communityId/metadata', [
+  param('sessionId').notEmpty(),
+  param('communityId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, communityId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const metadata = await session.socket.groupMetadata(communityId);
+
+    res.json({
+      success: true,
+      data: metadata,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/{communityId}/groups:
+ *   get:
+ *     summary: List the groups of a community
+ *     description: The announcement group has isCommunityAnnounce set
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: communityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Community groups retrieved successfully
+ */
+router.get('/:sessionId/:communityId/groups', [
+  param('sessionId').notEmpty(),
+  param('communityId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, communityId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const groups = await session.socket.communityFetchLinkedGroups(communityId);
+
+    res.json({
+      success: true,
+      data: groups,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/{communityId}/groups:
+ *   post:
+ *     summary: Create a group in a community
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: communityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - subject
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Group created successfully
+ */
+router.post('/:sessionId/:communityId/groups', [
+  param('sessionId').notEmpty(),
+  param('communityId').notEmpty(),
+  body('subject').notEmpty().trim().isLength({ min: 1, max: 100 }),
+  body('participants').optional().isArray(),
+  body('participants.*').isString().notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, communityId } = req.params;
+  const { subject, participants = [] } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const group = await session.socket.communityCreateGroup(subject, participants, communityId);
+
+    res.json({
+      success: true,
+      data: group,
+      message: 'Group created successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/{communityId}/groups/link:
+ *   post:
+ *     summary: Link existing groups to a community
+ *     description: The session must be an admin of the groups. Groups that couldn't be linked are returned with their error code.
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: communityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - groups
+ *             properties:
+ *               groups:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Groups linked successfully
+ */
+router.post('/:sessionId/:communityId/groups/link', [
+  param('sessionId').notEmpty(),
+  param('communityId').notEmpty(),
+  body('groups').isArray({ min: 1 }),
+  body('groups.*').isString().notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, communityId } = req.params;
+  const { groups } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const failed = await session.socket.communityLinkGroups(communityId, groups);
+
+    res.json({
+      success: true,
+      data: { failed },
+      message: failed.length ? 'Some groups could not be linked' : 'Groups linked successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/{communityId}/groups/unlink:
+ *   post:
+ *     summary: Unlink groups from a community
+ *     description: Unlinked groups carry on as standalone groups
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: communityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - groups
+ *             properties:
+ *               groups:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Groups unlinked successfully
+ */
+router.post('/:sessionId/:communityId/groups/unlink', [
+  param('sessionId').notEmpty(),
+  param('communityId').notEmpty(),
+  body('groups').isArray({ min: 1 }),
+  body('groups.*').isString().notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, communityId } = req.params;
+  const { groups } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    await session.socket.communityUnlinkGroups(communityId, groups);
+
+    res.json({
+      success: true,
+      message: 'Groups unlinked successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/{communityId}/announce:
+ *   post:
+ *     summary: Post to the announcement group of a community
+ *     description: Takes the same type & content as /api/messages/{sessionId}/send, only admins can post announcements
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: communityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 default: text
+ *               content:
+ *                 type: object
+ *               correlationId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Announcement sent successfully
+ *       404:
+ *         description: The community has no announcement group
+ */
+router.post('/:sessionId/:communityId/announce', [
+  param('sessionId').notEmpty(),
+  param('communityId').notEmpty(),
+  body('type').optional().isIn(SEND_MESSAGE_TYPES as unknown as string[]),
+  body('content').isObject(),
+  body('correlationId').optional().isString().isLength({ max: 255 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, communityId } = req.params;
+  const { type = 'text', content, correlationId } = req.body;
+
+  // the recipient is only used in the keys of reactions & pins, which aren't announcements
+  const built = buildMessageContent(type, content, communityId);
+  if (!built.content) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', built.errors);
+  }
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const groups = await session.socket.communityFetchLinkedGroups(communityId);
+    const announceGroup = groups.find(group => group.isCommunityAnnounce);
+    if (!announceGroup) {
+      return res.status(404).json({
+        success: false,
+        error: 'Announcement group not found',
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    }
+
+    const result = await whatsAppService.sendMessage(sessionId, announceGroup.id, built.content, {}, {
+      requestedBy: req.user?.id,
+      correlationId: correlationId || req.get('X-Correlation-Id') || undefined
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Announcement sent successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/communities/{sessionId}/{communityId}/leave:
+ *   post:
+ *     summary: Leave a community along with all its groups
+ *     tags: [Communities]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: communityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Left community successfully
+ */
+router.post('/:sessionId/:communityId/leave', [
+  param('sessionId').notEmpty(),
+  param('communityId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, communityId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    await session.socket.communityLeave(communityId);
+
+    res.json({
+      success: true,
+      message: 'Left community successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+export default router;
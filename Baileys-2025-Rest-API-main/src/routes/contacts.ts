@@ -1,8 +1,8 @@
 import { Router } from 'express';
-import { param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { handleValidationErrors, asyncHandler } from '../middleware/errorHandler';
 import { sessionMiddleware } from '../middleware/auth';
-import { whatsAppService } from '../app';
+import { whatsAppService, contactChecker } from '../app';
 import { DatabaseService } from '../services/DatabaseService';
 import { ApiResponse } from '../types/api';
 
@@ -41,6 +41,79 @@ router.get('/:sessionId', [
   } as ApiResponse);
 }));
 
+/**
+ * @swagger
+ * /api/contacts/{sessionId}/check:
+ *   post:
+ *     summary: Check phone numbers on WhatsApp
+ *     description: |
+ *       Numbers are normalized to E.164 & looked up on WhatsApp, along with the about text, business profile,
+ *       profile picture & disappearing messages timer of the ones on it unless enrich is false.
+ *       Results are saved on the contacts of the session & reused for CONTACT_CHECK_TTL seconds
+ *       (CONTACT_PROFILE_TTL for the profile), refresh looks them up again.
+ *     tags: [Contacts]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - numbers
+ *             properties:
+ *               numbers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               defaultCountryCode:
+ *                 type: string
+ *                 description: Country calling code of the numbers written without + or 00, e.g. 44 for 020 7946 0958 or 1 for (202) 555-0123
+ *               enrich:
+ *                 type: boolean
+ *                 default: true
+ *               refresh:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Numbers checked, one result per number in the order given
+ */
+router.post('/:sessionId/check', [
+  param('sessionId').notEmpty(),
+  body('numbers').isArray({ min: 1, max: parseInt(process.env.CONTACT_CHECK_MAX || '500') }),
+  body('numbers.*').isString(),
+  body('defaultCountryCode').optional().matches(/^\+?[1-9]\d{0,3}$/),
+  body('enrich').optional().isBoolean().toBoolean(),
+  body('refresh').optional().isBoolean().toBoolean()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { numbers, defaultCountryCode, enrich, refresh } = req.body;
+
+  try {
+    const results = await contactChecker.checkNumbers(sessionId, numbers, { defaultCountryCode, enrich, refresh });
+
+    res.json({
+      success: true,
+      data: results,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
 /**
  * @swagger
  * /api/contacts/{sessionId}/{contactId}/profile-picture:
@@ -101,6 +174,10 @@ router.get('/:sessionId/:contactId/profile-picture', [
  * /api/contacts/{sessionId}/{contactId}/presence:
  *   get:
  *     summary: Get contact presence status
+ *     description: |
+ *       Returns the last presence the contact reported, null while none is known. The contact is subscribed to,
+ *       as WhatsApp only reports the presence of subscribed contacts; `waitMs` waits for a first report.
+ *       `lastSeen` is only known when the contact's privacy settings share it.
  *     tags: [Contacts]
  *     security:
  *       - ApiKeyAuth: []
@@ -115,31 +192,34 @@ router.get('/:sessionId/:contactId/profile-picture', [
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: waitMs
+ *         schema:
+ *           type: integer
+ *           maximum: 10000
+ *           default: 0
  *     responses:
  *       200:
  *         description: Presence status retrieved successfully
  */
 router.get('/:sessionId/:contactId/presence', [
   param('sessionId').notEmpty(),
-  param('contactId').notEmpty()
+  param('contactId').notEmpty(),
+  query('waitMs').optional().isInt({ min: 0, max: 10000 }).toInt()
 ], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
   const { sessionId, contactId } = req.params;
 
-  const session = await whatsAppService.getSession(sessionId);
-  if (!session?.socket) {
-    return res.status(400).json({
-      success: false,
-      error: 'Session not connected',
-      timestamp: new Date().toISOString()
-    } as ApiResponse);
-  }
-
   try {
-    await session.socket.presenceSubscribe(contactId);
+    const presence = await whatsAppService.getContactPresence(sessionId, contactId, req.query.waitMs as unknown as number);
 
     res.json({
       success: true,
-      message: 'Presence subscription initiated',
+      data: {
+        jid: contactId,
+        status: presence?.status || null,
+        lastSeen: presence?.lastSeen || null,
+        updatedAt: presence?.updatedAt || null
+      },
       timestamp: new Date().toISOString()
     } as ApiResponse);
   } catch (error) {
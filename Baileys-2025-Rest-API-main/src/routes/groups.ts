@@ -1,11 +1,136 @@
 import { Router } from 'express';
-import { param, body } from 'express-validator';
-import { handleValidationErrors, asyncHandler } from '../middleware/errorHandler';
+import { param, body, query } from 'express-validator';
+import { Group } from '@prisma/client';
+import { handleValidationErrors, asyncHandler, createApiError } from '../middleware/errorHandler';
 import { sessionMiddleware } from '../middleware/auth';
 import { whatsAppService } from '../app';
-import { ApiResponse } from '../types/api';
+import { DatabaseService } from '../services/DatabaseService';
+import { ApiResponse, PaginatedResponse } from '../types/api';
+import { GroupSettings, groupSettingChanges, inviteCodeOf, summarizeParticipantAdds, toInviteLink } from '../Utils/groups';
+import { DISAPPEARING_DURATIONS } from '../Utils/messageContent';
 
 const router = Router();
+const dbService = new DatabaseService();
+
+const toGroupResponse = (group: Group) => ({
+  id: group.jid,
+  subject: group.subject,
+  description: group.description,
+  owner: group.owner,
+  isAdmin: group.isAdmin,
+  isCommunity: group.isCommunity,
+  announce: group.announce,
+  size: group.size,
+  participants: group.participants,
+  updatedAt: group.updatedAt
+});
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}:
+ *   get:
+ *     summary: List the groups of the session
+ *     description: |
+ *       Groups are served from the local copy, kept up to date from group events.
+ *       refresh fetches every group from WhatsApp first & drops the ones the session has left.
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: admin
+ *         description: Only groups the session is (or isn't) an admin of
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: community
+ *         description: Only communities, or only plain groups
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: announce
+ *         description: Only groups where only admins can send messages, or the others
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         description: Part of the subject
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: refresh
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Groups retrieved successfully
+ */
+router.get('/:sessionId', [
+  param('sessionId').notEmpty(),
+  query('admin').optional().isBoolean().toBoolean(),
+  query('community').optional().isBoolean().toBoolean(),
+  query('announce').optional().isBoolean().toBoolean(),
+  query('search').optional().isString().trim(),
+  query('refresh').optional().isBoolean().toBoolean(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { page = 1, limit = 50, search } = req.query;
+  // toBoolean() has turned these into booleans
+  const { admin, community, announce, refresh } = req.query as unknown as Record<string, boolean | undefined>;
+
+  if (refresh) {
+    try {
+      await whatsAppService.refreshGroups(sessionId);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    }
+  }
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { groups, total } = await dbService.getGroups(sessionId, {
+    page: pageNumber,
+    limit: limitNumber,
+    isAdmin: admin,
+    isCommunity: community,
+    announce,
+    search: search as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: groups.map(toGroupResponse),
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<ReturnType<typeof toGroupResponse>>);
+}));
 
 /**
  * @swagger
@@ -212,6 +337,91 @@ router.post('/:sessionId/:groupId/participants/add', [
   }
 }));
 
+/**
+ * @swagger
+ * /api/groups/{sessionId}/{groupId}/participants/bulk-add:
+ *   post:
+ *     summary: Add many numbers to a group with a result per number
+ *     description: |
+ *       Numbers are checked on WhatsApp & added in batches (GROUP_ADD_BATCH_SIZE, GROUP_ADD_BATCH_DELAY_MS apart).
+ *       Numbers whose privacy settings only allow invites are sent a group invite message, unless sendInvites is false.
+ *       Every number gets a status (added, invited, already_member, not_on_whatsapp, invalid or failed) and a readable reason.
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - participants
+ *             properties:
+ *               participants:
+ *                 type: array
+ *                 description: Phone numbers in any format, or user JIDs
+ *                 items:
+ *                   type: string
+ *               sendInvites:
+ *                 type: boolean
+ *                 default: true
+ *               inviteText:
+ *                 type: string
+ *                 description: Text of the invite messages
+ *               correlationId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Participants processed, see the result of each number
+ */
+router.post('/:sessionId/:groupId/participants/bulk-add', [
+  param('sessionId').notEmpty(),
+  param('groupId').notEmpty(),
+  body('participants').isArray({ min: 1, max: 1000 }),
+  body('participants.*').isString().notEmpty(),
+  body('sendInvites').optional().isBoolean().toBoolean(),
+  body('inviteText').optional().isString().isLength({ max: 1000 }),
+  body('correlationId').optional().isString().isLength({ max: 255 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, groupId } = req.params;
+  const { participants, sendInvites, inviteText, correlationId } = req.body;
+
+  try {
+    const results = await whatsAppService.addGroupParticipants(sessionId, groupId, participants, { sendInvites, inviteText }, {
+      requestedBy: req.user?.id,
+      correlationId: correlationId || req.get('X-Correlation-Id') || undefined
+    });
+
+    res.json({
+      success: true,
+      data: {
+        summary: summarizeParticipantAdds(results),
+        results
+      },
+      message: 'Participants processed',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
 /**
  * @swagger
  * /api/groups/{sessionId}/{groupId}/participants/remove:
@@ -617,4 +827,526 @@ router.post('/:sessionId/:groupId/leave', [
   }
 }));
 
+/**
+ * @swagger
+ * /api/groups/{sessionId}/{groupId}/invite-code:
+ *   get:
+ *     summary: Get the invite code & link of a group
+ *     description: Only admins can get the invite code
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite code retrieved successfully
+ */
+router.get('/:sessionId/:groupId/invite-code', [
+  param('sessionId').notEmpty(),
+  param('groupId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, groupId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const code = await session.socket.groupInviteCode(groupId);
+
+    res.json({
+      success: true,
+      data: { code, link: code ? toInviteLink(code) : undefined },
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}/{groupId}/invite-code/revoke:
+ *   post:
+ *     summary: Revoke the invite link of a group
+ *     description: The previous link stops working, the new code & link are returned
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite link revoked successfully
+ */
+router.post('/:sessionId/:groupId/invite-code/revoke', [
+  param('sessionId').notEmpty(),
+  param('groupId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, groupId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const code = await session.socket.groupRevokeInvite(groupId);
+
+    res.json({
+      success: true,
+      data: { code, link: code ? toInviteLink(code) : undefined },
+      message: 'Invite link revoked successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}/invites/{code}:
+ *   get:
+ *     summary: Get the group behind an invite code without joining it
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         description: Invite code, or the URL encoded invite link
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group metadata retrieved successfully
+ */
+router.get('/:sessionId/invites/:code', [
+  param('sessionId').notEmpty(),
+  param('code').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, code } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const metadata = await session.socket.groupGetInviteInfo(inviteCodeOf(code));
+
+    res.json({
+      success: true,
+      data: metadata,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}/invites/{code}/accept:
+ *   post:
+ *     summary: Join a group through an invite code
+ *     description: Groups asking for approval create a join request instead, the group JID is returned either way
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         description: Invite code, or the URL encoded invite link
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group joined successfully
+ */
+router.post('/:sessionId/invites/:code/accept', [
+  param('sessionId').notEmpty(),
+  param('code').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, code } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const groupId = await session.socket.groupAcceptInvite(inviteCodeOf(code));
+
+    res.json({
+      success: true,
+      data: { groupId },
+      message: 'Group joined successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}/invite-messages/{messageId}/accept:
+ *   post:
+ *     summary: Join a group through a received group invite message
+ *     description: Admins send these to people they can't add directly because of their privacy settings
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         description: ID of the stored group invite message
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group joined successfully
+ *       404:
+ *         description: Message not found
+ */
+router.post('/:sessionId/invite-messages/:messageId/accept', [
+  param('sessionId').notEmpty(),
+  param('messageId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, messageId } = req.params;
+
+  try {
+    const groupId = await whatsAppService.acceptGroupInviteMessage(sessionId, messageId);
+
+    res.json({
+      success: true,
+      data: { groupId },
+      message: 'Group joined successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(error.message === 'Message not found' ? 404 : 400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}/{groupId}/requests:
+ *   get:
+ *     summary: List the pending requests to join a group
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Join requests retrieved successfully
+ */
+router.get('/:sessionId/:groupId/requests', [
+  param('sessionId').notEmpty(),
+  param('groupId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, groupId } = req.params;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const requests = await session.socket.groupRequestParticipantsList(groupId);
+
+    res.json({
+      success: true,
+      data: requests,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}/{groupId}/requests/{action}:
+ *   post:
+ *     summary: Approve or reject requests to join a group
+ *     description: The status of every participant is returned, "200" when it went through
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: action
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [approve, reject]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - participants
+ *             properties:
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Join requests updated successfully
+ */
+router.post('/:sessionId/:groupId/requests/:action', [
+  param('sessionId').notEmpty(),
+  param('groupId').notEmpty(),
+  param('action').isIn(['approve', 'reject']),
+  body('participants').isArray({ min: 1 }),
+  body('participants.*').isString().notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, groupId } = req.params;
+  const action = req.params.action as 'approve' | 'reject';
+  const { participants } = req.body;
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const result = await session.socket.groupRequestParticipantsUpdate(groupId, participants, action);
+
+    res.json({
+      success: true,
+      data: result,
+      message: `Join requests ${action === 'approve' ? 'approved' : 'rejected'} successfully`,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/groups/{sessionId}/{groupId}/settings:
+ *   put:
+ *     summary: Update group settings
+ *     description: Only the given settings are changed, the updated group metadata is returned
+ *     tags: [Groups]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               announce:
+ *                 type: boolean
+ *                 description: Only admins can send messages
+ *               restrict:
+ *                 type: boolean
+ *                 description: Only admins can edit the group info
+ *               memberAddMode:
+ *                 type: boolean
+ *                 description: Members can add participants too
+ *               joinApprovalMode:
+ *                 type: boolean
+ *                 description: Requests to join must be approved by an admin
+ *               ephemeralDuration:
+ *                 type: integer
+ *                 enum: [0, 86400, 604800, 7776000]
+ *                 description: Disappearing messages timer in seconds, 0 turns them off
+ *     responses:
+ *       200:
+ *         description: Group settings updated successfully
+ */
+router.put('/:sessionId/:groupId/settings', [
+  param('sessionId').notEmpty(),
+  param('groupId').notEmpty(),
+  body('announce').optional().isBoolean().toBoolean(),
+  body('restrict').optional().isBoolean().toBoolean(),
+  body('memberAddMode').optional().isBoolean().toBoolean(),
+  body('joinApprovalMode').optional().isBoolean().toBoolean(),
+  body('ephemeralDuration').optional().isIn(DISAPPEARING_DURATIONS).toInt()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, groupId } = req.params;
+
+  const changes = groupSettingChanges(req.body as GroupSettings);
+  if (!changes.length) {
+    throw createApiError('At least one setting is required', 400, 'MISSING_SETTINGS');
+  }
+
+  const session = await whatsAppService.getSession(sessionId);
+  if (!session?.socket) {
+    return res.status(400).json({
+      success: false,
+      error: 'Session not connected',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  try {
+    const socket = session.socket;
+    for (const change of changes) {
+      switch (change.type) {
+      case 'setting':
+        await socket.groupSettingUpdate(groupId, change.setting);
+        break;
+      case 'memberAddMode':
+        await socket.groupMemberAddMode(groupId, change.mode);
+        break;
+      case 'joinApprovalMode':
+        await socket.groupJoinApprovalMode(groupId, change.mode);
+        break;
+      case 'ephemeral':
+        await socket.groupToggleEphemeral(groupId, change.expiration);
+        break;
+      }
+    }
+
+    const metadata = await socket.groupMetadata(groupId);
+
+    res.json({
+      success: true,
+      data: metadata,
+      message: 'Group settings updated successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
 export default router;
@@ -1,18 +1,315 @@
-import { Router } from 'express';
-import { param } from 'express-validator';
+import { Response, Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { MediaAsset } from '@prisma/client';
+import { Readable } from 'stream';
 import { handleValidationErrors, asyncHandler } from '../middleware/errorHandler';
 import { sessionMiddleware } from '../middleware/auth';
-import { whatsAppService } from '../app';
-import { ApiResponse } from '../types/api';
-import { downloadContentFromMessage } from '../Utils/messages-media';
+import { upload, removeUploadOnClose } from '../middleware/upload';
+import { whatsAppService, mediaLibrary } from '../app';
+import { ApiResponse, PaginatedResponse } from '../types/api';
+import { inlineContentDisposition } from '../Utils/http';
+import { guessMimetype } from '../Utils/messageContent';
 
 const router = Router();
+// Mounted without authentication, the signature of the URL grants access
+const signedRouter = Router();
+
+// The WhatsApp uploads kept with an asset are internal
+const toAssetResponse = ({ uploads, ...asset }: MediaAsset) => asset;
+
+const sendStream = (res: Response, stream: Readable, mimetype: string, fileName: string) => {
+  res.setHeader('Content-Type', mimetype);
+  res.setHeader('Content-Disposition', inlineContentDisposition(fileName));
+
+  stream.on('error', (error) => {
+    if (!res.headersSent) {
+      res.status(502).json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    } else {
+      res.destroy(error);
+    }
+  });
+
+  stream.pipe(res);
+};
+
+/**
+ * @swagger
+ * /api/media/library:
+ *   post:
+ *     summary: Add a file to the media library
+ *     description: |
+ *       Library files are sent by their `assetId`, with send-media or in the content of any media message,
+ *       including templates, scheduled messages & campaigns. A file is uploaded to WhatsApp once per media type,
+ *       later sends reuse that upload for as long as WhatsApp keeps it.
+ *       Uploading the same file again returns the asset already in the library.
+ *     tags: [Media]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               fileName:
+ *                 type: string
+ *               mimetype:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: File added to the library
+ *       400:
+ *         description: No file uploaded
+ */
+router.post('/library', upload.single('file'), removeUploadOnClose, [
+  body('fileName').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('mimetype').optional().isString().trim()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const file = req.file;
+
+  if (!file) {
+    return res.status(400).json({
+      success: false,
+      error: 'A file is required',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const fileName = req.body.fileName || file.originalname;
+  // browsers upload files they don't know as octet-stream
+  const uploadedMimetype = file.mimetype !== 'application/octet-stream' ? file.mimetype : undefined;
+
+  const asset = await mediaLibrary.addFile(file.path, {
+    userId: req.user!.id,
+    fileName,
+    mimetype: req.body.mimetype || uploadedMimetype || guessMimetype(fileName) || 'application/octet-stream'
+  });
+
+  res.status(201).json({
+    success: true,
+    data: toAssetResponse(asset),
+    message: 'File added to the library',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/media/library:
+ *   get:
+ *     summary: List the files of the media library
+ *     tags: [Media]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: mimetype
+ *         description: Start of the mimetype, e.g. image/ or application/pdf
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [upload, incoming]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Files retrieved successfully
+ */
+router.get('/library', [
+  query('mimetype').optional().isString().trim(),
+  query('source').optional().isIn(['upload', 'incoming']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { page = 1, limit = 50, mimetype, source } = req.query;
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { assets, total } = await mediaLibrary.getAssets(req.user!.id, {
+    page: pageNumber,
+    limit: limitNumber,
+    mimetype: mimetype as string | undefined,
+    source: source as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: assets.map(toAssetResponse),
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<ReturnType<typeof toAssetResponse>>);
+}));
+
+/**
+ * @swagger
+ * /api/media/library/{assetId}:
+ *   get:
+ *     summary: Get a file of the media library
+ *     tags: [Media]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File retrieved successfully
+ *       404:
+ *         description: File not found
+ */
+router.get('/library/:assetId', [
+  param('assetId').notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const asset = await mediaLibrary.getAsset(req.params.assetId, req.user!.id);
+
+  if (!asset) {
+    return res.status(404).json({
+      success: false,
+      error: 'File not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: toAssetResponse(asset),
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/media/library/{assetId}/download:
+ *   get:
+ *     summary: Download a file of the media library
+ *     tags: [Media]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, served with its mimetype
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: File not found
+ */
+router.get('/library/:assetId/download', [
+  param('assetId').notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const asset = await mediaLibrary.getAsset(req.params.assetId, req.user!.id);
+
+  if (!asset) {
+    return res.status(404).json({
+      success: false,
+      error: 'File not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  sendStream(res, await mediaLibrary.openAsset(asset), asset.mimetype, asset.fileName);
+}));
+
+/**
+ * @swagger
+ * /api/media/library/{assetId}:
+ *   delete:
+ *     summary: Delete a file of the media library
+ *     description: |
+ *       Scheduled messages & campaigns still referring to the file fail to send.
+ *       Files under retention, such as archived documents sent by customers, can't be deleted before `retainUntil`.
+ *     tags: [Media]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File deleted successfully
+ *       404:
+ *         description: File not found
+ *       409:
+ *         description: The file is under retention
+ */
+router.delete('/library/:assetId', [
+  param('assetId').notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const asset = await mediaLibrary.getAsset(req.params.assetId, req.user!.id);
+
+  if (!asset) {
+    return res.status(404).json({
+      success: false,
+      error: 'File not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  if (asset.retainUntil && asset.retainUntil > new Date()) {
+    return res.status(409).json({
+      success: false,
+      error: `File is retained until ${asset.retainUntil.toISOString()}`,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  await mediaLibrary.deleteAsset(asset);
+
+  res.json({
+    success: true,
+    message: 'File deleted successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
 
 /**
  * @swagger
  * /api/media/{sessionId}/download/{messageId}:
  *   get:
  *     summary: Download media from a message
+ *     description: |
+ *       Media archived by the media policy of the session is served from the library, and so even when
+ *       the session is disconnected or WhatsApp no longer has it. Other media is fetched from WhatsApp.
  *     tags: [Media]
  *     security:
  *       - ApiKeyAuth: []
@@ -29,12 +326,14 @@ const router = Router();
  *           type: string
  *     responses:
  *       200:
- *         description: Media downloaded successfully
+ *         description: Decrypted media, served with the original mimetype
  *         content:
  *           application/octet-stream:
  *             schema:
  *               type: string
  *               format: binary
+ *       404:
+ *         description: Message not found
  */
 router.get('/:sessionId/download/:messageId', [
   param('sessionId').notEmpty(),
@@ -42,30 +341,70 @@ router.get('/:sessionId/download/:messageId', [
 ], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
   const { sessionId, messageId } = req.params;
 
-  const session = await whatsAppService.getSession(sessionId);
-  if (!session?.socket) {
-    return res.status(400).json({
+  try {
+    const { stream, mimetype, fileName } = await whatsAppService.downloadMessageMedia(sessionId, messageId);
+    sendStream(res, stream, mimetype, fileName);
+  } catch (error) {
+    res.status(error.message === 'Message not found' ? 404 : 400).json({
       success: false,
-      error: 'Session not connected',
+      error: error.message,
       timestamp: new Date().toISOString()
     } as ApiResponse);
   }
+}));
 
-  try {
-    // This would need to be implemented with proper message retrieval
-    // For now, return a placeholder response
-    res.status(501).json({
-      success: false,
-      error: 'Media download not yet implemented',
-      timestamp: new Date().toISOString()
-    } as ApiResponse);
-  } catch (error) {
-    res.status(400).json({
+/**
+ * @swagger
+ * /api/media/files/{assetId}:
+ *   get:
+ *     summary: Download a media file through a signed URL
+ *     description: |
+ *       The URLs are handed out without credentials, e.g. in the `media.url` of message.received webhooks,
+ *       and stop working at their `expires` time (MEDIA_SIGNED_URL_TTL).
+ *     tags: [Media]
+ *     parameters:
+ *       - in: path
+ *         name: assetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, served with its mimetype
+ *       403:
+ *         description: Invalid or expired signature
+ */
+signedRouter.get('/:assetId', [
+  param('assetId').notEmpty(),
+  query('expires').isInt().toInt(),
+  query('signature').isString().notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const asset = await mediaLibrary.getSignedAsset(
+    req.params.assetId,
+    req.query.expires as unknown as number,
+    req.query.signature as string
+  );
+
+  if (!asset) {
+    return res.status(403).json({
       success: false,
-      error: error.message,
+      error: 'Invalid or expired signature',
       timestamp: new Date().toISOString()
     } as ApiResponse);
   }
+
+  sendStream(res, await mediaLibrary.openAsset(asset), asset.mimetype, asset.fileName);
 }));
 
+export { signedRouter as signedMediaRoutes };
 export default router;
@@ -1,39 +1,34 @@
 import { Router } from 'express';
 import { body, param, query } from 'express-validator';
-import multer from 'multer';
-import { handleValidationErrors, asyncHandler } from '../middleware/errorHandler';
+import { handleValidationErrors, asyncHandler, createApiError } from '../middleware/errorHandler';
 import { sessionMiddleware } from '../middleware/auth';
-import { whatsAppService } from '../app';
+import { upload, removeUploadOnClose } from '../middleware/upload';
+import { whatsAppService, mediaLibrary } from '../app';
 import { DatabaseService } from '../services/DatabaseService';
-import { ApiResponse, SendMessageRequest, MessageType } from '../types/api';
+import { ApiResponse, SendMessageRequest, MessageType, AuthenticatedRequest, MessageTracking } from '../types/api';
 import { downloadContentFromMessage } from '../Utils/messages-media';
+import { buildMessageContent, guessMimetype, MEDIA_MESSAGE_TYPES, mediaTypeForMimetype, SEND_MESSAGE_TYPES, SendMessageType } from '../Utils/messageContent';
+import { findMissingVariables, isTemplateVariables, renderTemplate, TemplateOptions } from '../Utils/template';
+import { MAX_TYPING_MS } from '../Utils/presence';
 
 const router = Router();
 const dbService = new DatabaseService();
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE || '50') * 1024 * 1024, // 50MB default
-    files: 1
-  },
-  fileFilter: (req, file, cb) => {
-    // Allow common media types
-    const allowedTypes = [
-      'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-      'video/mp4', 'video/mpeg', 'video/quicktime',
-      'audio/mpeg', 'audio/wav', 'audio/ogg',
-      'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-    ];
-    
-    if (allowedTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('File type not supported'));
-    }
-  }
+// Media sent as base64 is left out of the stored request, it would bloat every message row
+const withoutMediaData = (value: any): any => {
+  if (Array.isArray(value)) return value.map(withoutMediaData);
+  if (!value || typeof value !== 'object') return value;
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => (
+    [key, /base64$/i.test(key) && typeof item === 'string' ? '[base64]' : withoutMediaData(item)]
+  )));
+};
+
+// Stored with every message sent on behalf of the caller, to trace its delivery afterwards
+const trackRequest = (req: AuthenticatedRequest): MessageTracking => ({
+  requestedBy: req.user?.id,
+  correlationId: req.body.correlationId || req.get('X-Correlation-Id') || undefined,
+  requestPayload: withoutMediaData(req.body)
 });
 
 /**
@@ -65,6 +60,11 @@ const upload = multer({
  *         schema:
  *           type: integer
  *           default: 0
+ *       - in: query
+ *         name: correlationId
+ *         schema:
+ *           type: string
+ *         description: Only messages sent with this correlation ID
  *     responses:
  *       200:
  *         description: Messages retrieved successfully
@@ -75,13 +75,14 @@ router.get('/:sessionId', [
   query('offset').optional().isInt({ min: 0 })
 ], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
-  const { chatId, limit = 50, offset = 0 } = req.query;
+  const { chatId, correlationId, limit = 50, offset = 0 } = req.query;
 
   const messages = await dbService.getMessages(
     sessionId,
     chatId as string,
     parseInt(limit as string),
-    parseInt(offset as string)
+    parseInt(offset as string),
+    correlationId as string
   );
 
   res.json({
@@ -95,7 +96,28 @@ router.get('/:sessionId', [
  * @swagger
  * /api/messages/{sessionId}/send:
  *   post:
- *     summary: Send a text message
+ *     summary: Send a message of any type
+ *     description: |
+ *       `type` selects the message kind and the fields expected in `content`:
+ *       - text: text, linkPreview (false to disable)
+ *       - image, video: url, base64 or assetId, caption, mimetype; video also gifPlayback (mp4 played as a GIF), ptv
+ *       - audio: url, base64 or assetId, mimetype, ptt (voice note, ogg/opus, with its waveform), seconds
+ *       - document: url, base64 or assetId, mimetype (told from fileName or url when missing), fileName, caption,
+ *         thumbnailUrl or thumbnailBase64 (image the preview is made from)
+ *       - sticker: url, base64 or assetId (webp), isAnimated
+ *       - location: latitude, longitude, name, address
+ *       - contact: displayName, contacts (each with vcard, or fullName & phoneNumber)
+ *       - poll: name, values (2 to 12), selectableCount (0 for unlimited, default 1)
+ *       - reaction: messageId, emoji (empty to remove), fromMe, participant
+ *       - buttonReply: displayText, id, index, replyType (template or plain)
+ *       - listReply: title, description, selectedRowId
+ *       - groupInvite: groupJid, inviteCode, inviteExpiration, subject, text
+ *       - pin: messageId, fromMe, participant, action (pin or unpin), time (86400, 604800 or 2592000)
+ *       - product: product (productId, title, imageUrl, imageBase64 or imageAssetId, description, currencyCode, priceAmount1000, retailerId, url), businessOwnerJid, body, footer
+ *       - sharePhoneNumber, requestPhoneNumber: no content
+ *       - disappearingMessages: expiration (0, 86400, 604800 or 7776000 seconds)
+ *
+ *       Invalid content is rejected with a 422 listing every problem.
  *     tags: [Messages]
  *     security:
  *       - ApiKeyAuth: []
@@ -118,46 +140,198 @@ router.get('/:sessionId', [
  *               to:
  *                 type: string
  *                 description: Recipient JID
+ *               type:
+ *                 type: string
+ *                 default: text
+ *                 enum: [text, image, video, audio, document, sticker, location, contact, poll, reaction, buttonReply, listReply, groupInvite, pin, product, sharePhoneNumber, requestPhoneNumber, disappearingMessages]
  *               content:
  *                 type: object
- *                 properties:
- *                   text:
- *                     type: string
+ *               correlationId:
+ *                 type: string
+ *                 description: Your own reference, also accepted as the X-Correlation-Id header
  *               options:
  *                 type: object
  *                 properties:
- *                   quoted:
- *                     type: string
  *                   mentions:
  *                     type: array
  *                     items:
  *                       type: string
+ *                   quoted:
+ *                     type: string
+ *                     description: ID of a stored message to reply to
+ *                   viewOnce:
+ *                     type: boolean
+ *                   ephemeralExpiration:
+ *                     type: integer
+ *                     description: Seconds, for chats with disappearing messages on
+ *                   typingMs:
+ *                     type: integer
+ *                     maximum: 25000
+ *                     description: Show "typing..." (or "recording audio..." before voice notes) this long before sending
  *     responses:
  *       200:
  *         description: Message sent successfully
+ *       422:
+ *         description: Content does not match the message type
  */
 router.post('/:sessionId/send', [
   param('sessionId').notEmpty(),
   body('to').notEmpty().trim(),
-  body('content.text').notEmpty().trim(),
+  body('type').optional().isIn(SEND_MESSAGE_TYPES as unknown as string[]),
+  body('content').isObject(),
+  body('correlationId').optional().isString().isLength({ max: 255 }),
+  body('options.mentions').optional().isArray(),
+  body('options.mentions.*').optional().isString(),
   body('options.quoted').optional().isString(),
-  body('options.mentions').optional().isArray()
+  body('options.viewOnce').optional().isBoolean(),
+  body('options.ephemeralExpiration').optional().isInt({ min: 0 }),
+  body('options.typingMs').optional().isInt({ min: 0, max: MAX_TYPING_MS }).toInt()
 ], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
-  const { to, content, options = {} } = req.body;
+  const { to, type = 'text', content, options = {} } = req.body;
+
+  const quoted = options.quoted ? await whatsAppService.getStoredMessage(sessionId, options.quoted) : undefined;
+  if (options.quoted && !quoted) {
+    return res.status(404).json({
+      success: false,
+      error: 'Quoted message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const built = buildMessageContent(type, content, to, {
+    mentions: options.mentions,
+    viewOnce: options.viewOnce
+  });
+
+  if (!built.content) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', built.errors);
+  }
 
   try {
-    const messageContent: any = { text: content.text };
-    
-    if (options.quoted) {
-      messageContent.quoted = options.quoted;
-    }
-    
-    if (options.mentions && options.mentions.length > 0) {
-      messageContent.mentions = options.mentions;
-    }
+    const result = await whatsAppService.sendMessage(sessionId, to, built.content, {
+      quoted,
+      typingMs: options.typingMs,
+      ...(options.ephemeralExpiration !== undefined && { ephemeralExpiration: options.ephemeralExpiration })
+    }, trackRequest(req));
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Message sent successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/messages/{sessionId}/send-template:
+ *   post:
+ *     summary: Send a message template
+ *     description: |
+ *       Fills the `{{variable}}` placeholders of a template & sends it like the send endpoint would.
+ *       Every placeholder needs a value, the missing ones are listed in a 422.
+ *       The given options take precedence over the options of the template.
+ *     tags: [Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - to
+ *               - templateId
+ *             properties:
+ *               to:
+ *                 type: string
+ *               templateId:
+ *                 type: string
+ *               variables:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *               correlationId:
+ *                 type: string
+ *               options:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Message sent successfully
+ *       404:
+ *         description: Template or quoted message not found
+ *       422:
+ *         description: Missing variables, or the rendered content does not match the message type
+ */
+router.post('/:sessionId/send-template', [
+  param('sessionId').notEmpty(),
+  body('to').notEmpty().trim(),
+  body('templateId').isString().notEmpty(),
+  body('variables').optional().custom(isTemplateVariables).withMessage('must be an object of strings, numbers or booleans'),
+  body('correlationId').optional().isString().isLength({ max: 255 }),
+  body('options.mentions').optional().isArray(),
+  body('options.mentions.*').optional().isString(),
+  body('options.quoted').optional().isString(),
+  body('options.viewOnce').optional().isBoolean(),
+  body('options.ephemeralExpiration').optional().isInt({ min: 0 }),
+  body('options.typingMs').optional().isInt({ min: 0, max: MAX_TYPING_MS }).toInt()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { to, templateId, variables = {}, options = {} } = req.body;
 
-    const result = await whatsAppService.sendMessage(sessionId, to, messageContent);
+  const template = await dbService.getUserTemplate(templateId, req.user!.id);
+  if (!template) {
+    return res.status(404).json({
+      success: false,
+      error: 'Template not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const missing = findMissingVariables(template.content, variables);
+  if (missing.length) {
+    throw createApiError(`Missing template variables: ${missing.join(', ')}`, 422, 'MISSING_TEMPLATE_VARIABLES', { missing });
+  }
+
+  const quoted = options.quoted ? await whatsAppService.getStoredMessage(sessionId, options.quoted) : undefined;
+  if (options.quoted && !quoted) {
+    return res.status(404).json({
+      success: false,
+      error: 'Quoted message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const type = template.type as SendMessageType;
+  const { mentions, viewOnce, ephemeralExpiration }: TemplateOptions = { ...(template.options as TemplateOptions | null), ...options };
+
+  const built = buildMessageContent(type, renderTemplate(template.content, variables), to, { mentions, viewOnce });
+
+  if (!built.content) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', built.errors);
+  }
+
+  try {
+    const result = await whatsAppService.sendMessage(sessionId, to, built.content, {
+      quoted,
+      typingMs: options.typingMs,
+      ...(ephemeralExpiration !== undefined && { ephemeralExpiration })
+    }, { ...trackRequest(req), source: 'template' });
 
     res.json({
       success: true,
@@ -179,6 +353,17 @@ router.post('/:sessionId/send', [
  * /api/messages/{sessionId}/send-media:
  *   post:
  *     summary: Send a media message
+ *     description: |
+ *       The media is an uploaded `file`, or in a JSON body a public `url`, `base64` data
+ *       or the `assetId` of a file of the media library (see /api/media/library).
+ *       Library files are uploaded to WhatsApp once, later sends reuse the upload.
+ *       Uploads & URLs are streamed to WhatsApp, so large files aren't held in memory,
+ *       and a URL is fetched by the server directly, without going through the client.
+ *
+ *       `type` defaults to image, video or audio going by the mimetype, and document for anything else.
+ *       The mimetype is told from the upload, or from the file name or URL extension when not given.
+ *       Stickers must be webp, voice notes (`ptt`) ogg/opus; `gifPlayback` plays an mp4 as a GIF,
+ *       and documents can have a preview made from `thumbnailUrl` or `thumbnailBase64`.
  *     tags: [Messages]
  *     security:
  *       - ApiKeyAuth: []
@@ -203,64 +388,134 @@ router.post('/:sessionId/send', [
  *               file:
  *                 type: string
  *                 format: binary
+ *               type:
+ *                 type: string
+ *                 enum: [image, video, audio, document, sticker]
+ *               caption:
+ *                 type: string
+ *               fileName:
+ *                 type: string
+ *               mimetype:
+ *                 type: string
+ *               ptt:
+ *                 type: boolean
+ *               gifPlayback:
+ *                 type: boolean
+ *               isAnimated:
+ *                 type: boolean
+ *               thumbnailUrl:
+ *                 type: string
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - to
+ *             properties:
+ *               to:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *               base64:
+ *                 type: string
+ *               assetId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [image, video, audio, document, sticker]
  *               caption:
  *                 type: string
  *               fileName:
  *                 type: string
+ *               mimetype:
+ *                 type: string
+ *               ptt:
+ *                 type: boolean
+ *               gifPlayback:
+ *                 type: boolean
+ *               isAnimated:
+ *                 type: boolean
+ *               thumbnailUrl:
+ *                 type: string
+ *               thumbnailBase64:
+ *                 type: string
+ *               correlationId:
+ *                 type: string
+ *               typingMs:
+ *                 type: integer
+ *                 maximum: 25000
  *     responses:
  *       200:
  *         description: Media message sent successfully
+ *       422:
+ *         description: The media doesn't fit the message type
  */
-router.post('/:sessionId/send-media', upload.single('file'), [
+router.post('/:sessionId/send-media', upload.single('file'), removeUploadOnClose, [
   param('sessionId').notEmpty(),
   body('to').notEmpty().trim(),
+  body('type').optional().isIn(MEDIA_MESSAGE_TYPES as unknown as string[]),
+  body('url').optional().isString(),
+  body('base64').optional().isString(),
+  body('assetId').optional().isString(),
   body('caption').optional().trim(),
-  body('fileName').optional().trim()
+  body('fileName').optional().trim(),
+  body('mimetype').optional().isString().trim(),
+  body('ptt').optional().isBoolean().toBoolean(),
+  body('gifPlayback').optional().isBoolean().toBoolean(),
+  body('isAnimated').optional().isBoolean().toBoolean(),
+  body('thumbnailUrl').optional().isString(),
+  body('thumbnailBase64').optional().isString(),
+  body('correlationId').optional().isString().isLength({ max: 255 }),
+  body('typingMs').optional().isInt({ min: 0, max: MAX_TYPING_MS }).toInt()
 ], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
-  const { to, caption, fileName } = req.body;
+  const { to, url, base64, assetId } = req.body;
   const file = req.file;
 
-  if (!file) {
+  if (!file && !url && !base64 && !assetId) {
     return res.status(400).json({
       success: false,
-      error: 'No file uploaded',
+      error: 'A file, url, base64 or assetId is required',
       timestamp: new Date().toISOString()
     } as ApiResponse);
   }
 
-  try {
-    let messageContent: any;
-    const mediaBuffer = file.buffer;
-    const mimetype = file.mimetype;
-
-    if (mimetype.startsWith('image/')) {
-      messageContent = {
-        image: mediaBuffer,
-        caption,
-        fileName: fileName || file.originalname
-      };
-    } else if (mimetype.startsWith('video/')) {
-      messageContent = {
-        video: mediaBuffer,
-        caption,
-        fileName: fileName || file.originalname
-      };
-    } else if (mimetype.startsWith('audio/')) {
-      messageContent = {
-        audio: mediaBuffer,
-        fileName: fileName || file.originalname,
-        mimetype
-      };
-    } else {
-      messageContent = {
-        document: mediaBuffer,
-        fileName: fileName || file.originalname,
-        mimetype
-      };
-    }
+  // browsers upload files they don't know as octet-stream
+  const uploadedMimetype = file && file.mimetype !== 'application/octet-stream' ? file.mimetype : undefined;
+  const fileName = req.body.fileName || file?.originalname;
+  let mimetype = req.body.mimetype || uploadedMimetype || guessMimetype(fileName) || guessMimetype(url);
+
+  // the type of a library file goes by its stored mimetype
+  if (!file && assetId && !mimetype && !req.body.type) {
+    const asset = await mediaLibrary.getAsset(assetId, req.user!.id);
+    mimetype = asset?.mimetype;
+  }
+
+  const type = req.body.type || mediaTypeForMimetype(mimetype);
+
+  const built = buildMessageContent(type, {
+    url: file ? undefined : url,
+    base64: file ? undefined : base64,
+    assetId: file ? undefined : assetId,
+    caption: req.body.caption,
+    fileName,
+    mimetype,
+    ptt: req.body.ptt,
+    gifPlayback: req.body.gifPlayback,
+    isAnimated: req.body.isAnimated,
+    thumbnailUrl: req.body.thumbnailUrl,
+    thumbnailBase64: req.body.thumbnailBase64
+  }, to, {
+    media: file ? { url: file.path } : undefined
+  });
 
-    const result = await whatsAppService.sendMessage(sessionId, to, messageContent);
+  if (!built.content) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', built.errors);
+  }
+
+  try {
+    const result = await whatsAppService.sendMessage(sessionId, to, built.content, {
+      typingMs: req.body.typingMs
+    }, trackRequest(req));
 
     res.json({
       success: true,
@@ -312,6 +567,9 @@ router.post('/:sessionId/send-media', upload.single('file'), [
  *                 type: string
  *               address:
  *                 type: string
+ *               typingMs:
+ *                 type: integer
+ *                 maximum: 25000
  *     responses:
  *       200:
  *         description: Location message sent successfully
@@ -322,10 +580,11 @@ router.post('/:sessionId/send-location', [
   body('latitude').isFloat({ min: -90, max: 90 }),
   body('longitude').isFloat({ min: -180, max: 180 }),
   body('name').optional().trim(),
-  body('address').optional().trim()
+  body('address').optional().trim(),
+  body('typingMs').optional().isInt({ min: 0, max: MAX_TYPING_MS }).toInt()
 ], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
   const { sessionId } = req.params;
-  const { to, latitude, longitude, name, address } = req.body;
+  const { to, latitude, longitude, name, address, typingMs } = req.body;
 
   try {
     const messageContent = {
@@ -337,7 +596,7 @@ router.post('/:sessionId/send-location', [
       }
     };
 
-    const result = await whatsAppService.sendMessage(sessionId, to, messageContent);
+    const result = await whatsAppService.sendMessage(sessionId, to, messageContent, { typingMs }, trackRequest(req));
 
     res.json({
       success: true,
@@ -409,7 +668,7 @@ router.post('/:sessionId/send-reaction', [
       }
     };
 
-    const result = await whatsAppService.sendMessage(sessionId, to, messageContent);
+    const result = await whatsAppService.sendMessage(sessionId, to, messageContent, {}, trackRequest(req));
 
     res.json({
       success: true,
@@ -426,4 +685,359 @@ router.post('/:sessionId/send-reaction', [
   }
 }));
 
+/**
+ * @swagger
+ * /api/messages/{sessionId}/{messageId}/reply:
+ *   post:
+ *     summary: Reply to a stored message
+ *     description: Sends a message quoting the given message, in the chat it belongs to. The body is the same as for send, without `to`.
+ *     tags: [Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 default: text
+ *               content:
+ *                 type: object
+ *               options:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Reply sent successfully
+ *       404:
+ *         description: Message not found
+ *       422:
+ *         description: Content does not match the message type
+ */
+router.post('/:sessionId/:messageId/reply', [
+  param('sessionId').notEmpty(),
+  param('messageId').notEmpty(),
+  body('type').optional().isIn(SEND_MESSAGE_TYPES as unknown as string[]),
+  body('content').isObject(),
+  body('correlationId').optional().isString().isLength({ max: 255 }),
+  body('options.mentions').optional().isArray(),
+  body('options.mentions.*').optional().isString(),
+  body('options.viewOnce').optional().isBoolean(),
+  body('options.ephemeralExpiration').optional().isInt({ min: 0 }),
+  body('options.typingMs').optional().isInt({ min: 0, max: MAX_TYPING_MS }).toInt()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, messageId } = req.params;
+  const { type = 'text', content, options = {} } = req.body;
+
+  const quoted = await whatsAppService.getStoredMessage(sessionId, messageId);
+  if (!quoted) {
+    return res.status(404).json({
+      success: false,
+      error: 'Message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const built = buildMessageContent(type, content, quoted.key.remoteJid!, {
+    mentions: options.mentions,
+    viewOnce: options.viewOnce
+  });
+
+  if (!built.content) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', built.errors);
+  }
+
+  try {
+    const result = await whatsAppService.replyToMessage(sessionId, messageId, built.content, {
+      typingMs: options.typingMs,
+      ...(options.ephemeralExpiration !== undefined && { ephemeralExpiration: options.ephemeralExpiration })
+    }, trackRequest(req));
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Reply sent successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(error.message === 'Message not found' ? 404 : 400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/messages/{sessionId}/{messageId}:
+ *   put:
+ *     summary: Edit a text message
+ *     description: Only text messages sent by the session can be edited, within 15 minutes of being sent
+ *     tags: [Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Message edited successfully
+ *       404:
+ *         description: Message not found
+ */
+router.put('/:sessionId/:messageId', [
+  param('sessionId').notEmpty(),
+  param('messageId').notEmpty(),
+  body('text').isString().notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, messageId } = req.params;
+  const { text } = req.body;
+
+  try {
+    const result = await whatsAppService.editMessage(sessionId, messageId, text, trackRequest(req));
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Message edited successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(error.message === 'Message not found' ? 404 : 400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/messages/{sessionId}/{messageId}:
+ *   delete:
+ *     summary: Delete a message for everyone
+ *     description: Messages of other participants can only be deleted in groups where the session is admin
+ *     tags: [Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Message deleted successfully
+ *       404:
+ *         description: Message not found
+ */
+router.delete('/:sessionId/:messageId', [
+  param('sessionId').notEmpty(),
+  param('messageId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, messageId } = req.params;
+
+  try {
+    const result = await whatsAppService.deleteMessage(sessionId, messageId, trackRequest(req));
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Message deleted successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(error.message === 'Message not found' ? 404 : 400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/messages/{sessionId}/{messageId}/forward:
+ *   post:
+ *     summary: Forward a stored message
+ *     tags: [Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - to
+ *             properties:
+ *               to:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: array
+ *                     items:
+ *                       type: string
+ *                 description: Recipient JID, or a list of up to 20
+ *     responses:
+ *       200:
+ *         description: Message forwarded successfully
+ *       404:
+ *         description: Message not found
+ */
+router.post('/:sessionId/:messageId/forward', [
+  param('sessionId').notEmpty(),
+  param('messageId').notEmpty(),
+  body('correlationId').optional().isString().isLength({ max: 255 }),
+  body('to').custom(value => {
+    const recipients = Array.isArray(value) ? value : [value];
+    if (!recipients.length || recipients.length > 20 || recipients.some(to => typeof to !== 'string' || !to.trim())) {
+      throw new Error('to must be a JID or a list of 1 to 20 JIDs');
+    }
+
+    return true;
+  })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, messageId } = req.params;
+  const recipients: string[] = Array.isArray(req.body.to) ? req.body.to : [req.body.to];
+
+  try {
+    const results = await whatsAppService.forwardMessage(sessionId, messageId, recipients, trackRequest(req));
+
+    res.json({
+      success: true,
+      data: results,
+      message: 'Message forwarded successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(error.message === 'Message not found' ? 404 : 400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/messages/{sessionId}/{messageId}/status:
+ *   get:
+ *     summary: Get the delivery status of a message
+ *     description: |
+ *       The status only moves forward, PENDING, SENT, DELIVERED then READ (played voice notes count as read).
+ *       In groups it is the furthest status reached by any participant, the timeline holds
+ *       one entry per participant & status.
+ *     tags: [Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery status retrieved successfully
+ *       404:
+ *         description: Message not found
+ */
+router.get('/:sessionId/:messageId/status', [
+  param('sessionId').notEmpty(),
+  param('messageId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, messageId } = req.params;
+
+  const message = await dbService.getMessageStatusTimeline(sessionId, messageId);
+  if (!message) {
+    return res.status(404).json({
+      success: false,
+      error: 'Message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      messageId: message.messageId,
+      chatId: message.chatId,
+      fromMe: message.fromMe,
+      status: message.status,
+      error: message.error,
+      source: message.source,
+      requestedBy: message.requestedBy,
+      correlationId: message.correlationId,
+      recipients: message.receipts || {},
+      timeline: message.statusEvents.map(event => ({
+        status: event.status,
+        recipient: event.recipient,
+        error: event.error,
+        timestamp: event.timestamp
+      })),
+      createdAt: message.createdAt,
+      updatedAt: message.updatedAt
+    },
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
 export default router;
@@ -0,0 +1,429 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { handleValidationErrors, asyncHandler, createApiError } from '../middleware/errorHandler';
+import { sessionMiddleware } from '../middleware/auth';
+import { whatsAppService, scheduler } from '../app';
+import { DatabaseService } from '../services/DatabaseService';
+import { ApiResponse, PaginatedResponse } from '../types/api';
+import { buildMessageContent, SEND_MESSAGE_TYPES, SendMessageType } from '../Utils/messageContent';
+import { findMissingVariables, isTemplateVariables, renderTemplate } from '../Utils/template';
+
+const router = Router();
+const dbService = new DatabaseService();
+
+const SCHEDULED_MESSAGE_STATUSES = ['SCHEDULED', 'SENDING', 'SENT', 'FAILED', 'CANCELLED'];
+
+// Longest a message can be scheduled ahead
+const MAX_DELAY_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * Resolve the send time of a request body, given either as a date or as a delay in seconds
+ */
+const getSendAt = (sendAt?: string, delay?: number): Date => {
+  return sendAt ? new Date(sendAt) : new Date(Date.now() + (delay || 0) * 1000);
+};
+
+const sendTimeValidators = [
+  body('sendAt').optional().isISO8601().custom(value => {
+    if (new Date(value).getTime() < Date.now() - 60 * 1000) {
+      throw new Error('sendAt must not be in the past');
+    }
+
+    return true;
+  }),
+  body('delay').optional().isInt({ min: 0, max: MAX_DELAY_SECONDS }),
+  body().custom(value => {
+    if ((value.sendAt === undefined) === (value.delay === undefined)) {
+      throw new Error('Either sendAt or delay is required');
+    }
+
+    return true;
+  })
+];
+
+/**
+ * @swagger
+ * /api/scheduled-messages/{sessionId}:
+ *   post:
+ *     summary: Schedule a message
+ *     description: |
+ *       Takes the same `to`, `type`, `content` & `options` as the send endpoint, plus when to send it.
+ *       A template can be given instead of `type` & `content`, its placeholders are filled with
+ *       `variables` right away, so later changes to the template don't affect the message.
+ *       If the session is reconnecting at that time, the message goes out once it is back,
+ *       unless it is more than SCHEDULER_MAX_DELAY seconds late.
+ *     tags: [Scheduled Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - to
+ *             properties:
+ *               to:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 default: text
+ *               content:
+ *                 type: object
+ *               templateId:
+ *                 type: string
+ *                 description: Instead of type & content
+ *               variables:
+ *                 type: object
+ *                 description: Values of the template placeholders
+ *               options:
+ *                 type: object
+ *               sendAt:
+ *                 type: string
+ *                 format: date-time
+ *               delay:
+ *                 type: integer
+ *                 description: Seconds from now, instead of sendAt
+ *               correlationId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Message scheduled successfully
+ *       404:
+ *         description: Template or quoted message not found
+ *       422:
+ *         description: Missing template variables, or content does not match the message type
+ */
+router.post('/:sessionId', [
+  param('sessionId').notEmpty(),
+  body('to').notEmpty().trim(),
+  body('type').optional().isIn(SEND_MESSAGE_TYPES as unknown as string[]),
+  body('content').if(body('templateId').not().exists()).isObject(),
+  body('templateId').optional().isString().notEmpty(),
+  body('variables').optional().custom(isTemplateVariables).withMessage('must be an object of strings, numbers or booleans'),
+  body('correlationId').optional().isString().isLength({ max: 255 }),
+  body('options.mentions').optional().isArray(),
+  body('options.mentions.*').optional().isString(),
+  body('options.quoted').optional().isString(),
+  body('options.viewOnce').optional().isBoolean(),
+  body('options.ephemeralExpiration').optional().isInt({ min: 0 }),
+  ...sendTimeValidators
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { to, sendAt, delay, correlationId, templateId, variables = {} } = req.body;
+  let { type = 'text', content, options = {} } = req.body;
+
+  if (templateId) {
+    const template = await dbService.getUserTemplate(templateId, req.user!.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Template not found',
+        timestamp: new Date().toISOString()
+      } as ApiResponse);
+    }
+
+    const missing = findMissingVariables(template.content, variables);
+    if (missing.length) {
+      throw createApiError(`Missing template variables: ${missing.join(', ')}`, 422, 'MISSING_TEMPLATE_VARIABLES', { missing });
+    }
+
+    type = template.type as SendMessageType;
+    content = renderTemplate(template.content, variables);
+    options = { ...(template.options as object || {}), ...options };
+  }
+
+  const built = buildMessageContent(type, content, to, {
+    mentions: options.mentions,
+    viewOnce: options.viewOnce
+  });
+
+  if (!built.content) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', built.errors);
+  }
+
+  if (options.quoted && !(await whatsAppService.getStoredMessage(sessionId, options.quoted))) {
+    return res.status(404).json({
+      success: false,
+      error: 'Quoted message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const scheduledMessage = await scheduler.scheduleMessage({
+    sessionId,
+    to,
+    type,
+    content,
+    options: {
+      mentions: options.mentions,
+      quoted: options.quoted,
+      viewOnce: options.viewOnce,
+      ephemeralExpiration: options.ephemeralExpiration
+    },
+    sendAt: getSendAt(sendAt, delay),
+    correlationId: correlationId || req.get('X-Correlation-Id') || undefined,
+    requestedBy: req.user?.id,
+    templateId
+  });
+
+  res.status(201).json({
+    success: true,
+    data: scheduledMessage,
+    message: 'Message scheduled successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/scheduled-messages/{sessionId}:
+ *   get:
+ *     summary: List the scheduled messages of a session
+ *     tags: [Scheduled Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [SCHEDULED, SENDING, SENT, FAILED, CANCELLED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Scheduled messages retrieved successfully
+ */
+router.get('/:sessionId', [
+  param('sessionId').notEmpty(),
+  query('status').optional().isIn(SCHEDULED_MESSAGE_STATUSES),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId } = req.params;
+  const { page = 1, limit = 50, status } = req.query;
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { messages, total } = await scheduler.getScheduledMessages(sessionId, {
+    page: pageNumber,
+    limit: limitNumber,
+    status: status as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: messages,
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<typeof messages[number]>);
+}));
+
+/**
+ * @swagger
+ * /api/scheduled-messages/{sessionId}/{id}:
+ *   get:
+ *     summary: Get a scheduled message
+ *     tags: [Scheduled Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scheduled message retrieved successfully
+ *       404:
+ *         description: Scheduled message not found
+ */
+router.get('/:sessionId/:id', [
+  param('sessionId').notEmpty(),
+  param('id').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, id } = req.params;
+
+  const scheduledMessage = await scheduler.getScheduledMessage(sessionId, id);
+  if (!scheduledMessage) {
+    return res.status(404).json({
+      success: false,
+      error: 'Scheduled message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: scheduledMessage,
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/scheduled-messages/{sessionId}/{id}:
+ *   put:
+ *     summary: Reschedule a message
+ *     description: Only messages not sent yet, or that failed, can be rescheduled
+ *     tags: [Scheduled Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               sendAt:
+ *                 type: string
+ *                 format: date-time
+ *               delay:
+ *                 type: integer
+ *                 description: Seconds from now, instead of sendAt
+ *     responses:
+ *       200:
+ *         description: Message rescheduled successfully
+ *       404:
+ *         description: Scheduled message not found
+ *       409:
+ *         description: The message was already sent, cancelled or is being sent
+ */
+router.put('/:sessionId/:id', [
+  param('sessionId').notEmpty(),
+  param('id').notEmpty(),
+  ...sendTimeValidators
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, id } = req.params;
+  const { sendAt, delay } = req.body;
+
+  const existing = await scheduler.getScheduledMessage(sessionId, id);
+  if (!existing) {
+    return res.status(404).json({
+      success: false,
+      error: 'Scheduled message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const scheduledMessage = await scheduler.rescheduleMessage(sessionId, id, getSendAt(sendAt, delay));
+  if (!scheduledMessage) {
+    return res.status(409).json({
+      success: false,
+      error: `Scheduled message is ${existing.status.toLowerCase()} and can't be rescheduled`,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: scheduledMessage,
+    message: 'Message rescheduled successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/scheduled-messages/{sessionId}/{id}:
+ *   delete:
+ *     summary: Cancel a scheduled message
+ *     tags: [Scheduled Messages]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scheduled message cancelled successfully
+ *       404:
+ *         description: Scheduled message not found
+ *       409:
+ *         description: The message was already sent, cancelled or is being sent
+ */
+router.delete('/:sessionId/:id', [
+  param('sessionId').notEmpty(),
+  param('id').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { sessionId, id } = req.params;
+
+  const existing = await scheduler.getScheduledMessage(sessionId, id);
+  if (!existing) {
+    return res.status(404).json({
+      success: false,
+      error: 'Scheduled message not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const scheduledMessage = await scheduler.cancelScheduledMessage(sessionId, id);
+  if (!scheduledMessage) {
+    return res.status(409).json({
+      success: false,
+      error: `Scheduled message is ${existing.status.toLowerCase()} and can't be cancelled`,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: scheduledMessage,
+    message: 'Scheduled message cancelled successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+export default router;
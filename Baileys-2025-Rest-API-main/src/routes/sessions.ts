@@ -5,6 +5,8 @@ import { sessionMiddleware } from '../middleware/auth';
 import { whatsAppService } from '../app';
 import { DatabaseService } from '../services/DatabaseService';
 import { ApiResponse, SessionStatus } from '../types/api';
+import { MEDIA_MESSAGE_TYPES } from '../Utils/messageContent';
+import { parseMediaArchivePolicy } from '../Utils/mediaArchive';
 
 const router = Router();
 const dbService = new DatabaseService();
@@ -362,4 +364,174 @@ router.post('/:sessionId/restart', [
   } as ApiResponse);
 }));
 
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/presence:
+ *   put:
+ *     summary: Set the presence of the session
+ *     description: |
+ *       `available` shows the number online, `unavailable` offline. While available, the phone stops
+ *       getting notifications, so set it back to unavailable once done.
+ *     tags: [Sessions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - presence
+ *             properties:
+ *               presence:
+ *                 type: string
+ *                 enum: [available, unavailable]
+ *     responses:
+ *       200:
+ *         description: Presence updated successfully
+ */
+router.put('/:sessionId/presence', [
+  param('sessionId').notEmpty(),
+  body('presence').isIn(['available', 'unavailable'])
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  try {
+    await whatsAppService.setPresence(req.params.sessionId, req.body.presence);
+
+    res.json({
+      success: true,
+      message: 'Presence updated successfully',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+}));
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/media-policy:
+ *   get:
+ *     summary: Get which incoming media of a session is archived
+ *     tags: [Sessions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Media policy retrieved successfully
+ */
+router.get('/:sessionId/media-policy', [
+  param('sessionId').notEmpty()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const dbSession = await dbService.getSession(req.params.sessionId);
+
+  res.json({
+    success: true,
+    data: parseMediaArchivePolicy(dbSession?.mediaPolicy),
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/sessions/{sessionId}/media-policy:
+ *   put:
+ *     summary: Set which incoming media of a session is archived
+ *     description: |
+ *       Matching media of incoming messages is downloaded as it arrives and kept in the media library,
+ *       the message row records its path & checksum, and the message.received webhook links to it
+ *       with a signed URL. Documents sent by customers are retained for MEDIA_DOCUMENT_RETENTION_YEARS (7).
+ *       Fields left out keep their defaults.
+ *     tags: [Sessions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - enabled
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               mediaTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [image, video, audio, document, sticker]
+ *                 default: [image, audio, document]
+ *               maxSizeBytes:
+ *                 type: integer
+ *                 description: Larger files, and files of unknown size, are not archived
+ *               chats:
+ *                 type: array
+ *                 description: Only archive these chats
+ *                 items:
+ *                   type: string
+ *               excludeChats:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               groups:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Media policy updated successfully
+ */
+router.put('/:sessionId/media-policy', [
+  param('sessionId').notEmpty(),
+  body('enabled').isBoolean().toBoolean(),
+  body('mediaTypes').optional().isArray({ min: 1 }),
+  body('mediaTypes.*').isIn(MEDIA_MESSAGE_TYPES as unknown as string[]),
+  body('maxSizeBytes').optional().isInt({ min: 1 }).toInt(),
+  body('chats').optional().isArray(),
+  body('chats.*').isString().trim().notEmpty(),
+  body('excludeChats').optional().isArray(),
+  body('excludeChats.*').isString().trim().notEmpty(),
+  body('groups').optional().isBoolean().toBoolean()
+], sessionMiddleware, handleValidationErrors, asyncHandler(async (req, res) => {
+  const { enabled, mediaTypes, maxSizeBytes, chats, excludeChats, groups } = req.body;
+
+  const policy = await whatsAppService.setMediaPolicy(req.params.sessionId, parseMediaArchivePolicy({
+    enabled,
+    ...(mediaTypes && { mediaTypes }),
+    ...(maxSizeBytes && { maxSizeBytes }),
+    ...(chats && { chats }),
+    ...(excludeChats && { excludeChats }),
+    ...(groups !== undefined && { groups })
+  }));
+
+  res.json({
+    success: true,
+    data: policy,
+    message: 'Media policy updated successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
 export default router;
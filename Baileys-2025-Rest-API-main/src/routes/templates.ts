@@ -0,0 +1,378 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { Prisma } from '@prisma/client';
+import { handleValidationErrors, asyncHandler, createApiError } from '../middleware/errorHandler';
+import { DatabaseService } from '../services/DatabaseService';
+import { ApiResponse, PaginatedResponse } from '../types/api';
+import { buildMessageContent, SEND_MESSAGE_TYPES, SendMessageType } from '../Utils/messageContent';
+import { findPlaceholders, TemplateOptions, withoutPlaceholderErrors } from '../Utils/template';
+
+const router = Router();
+const dbService = new DatabaseService();
+
+// Stands in for the recipient while checking the content, it's only used in the keys of reactions & pins
+const SAMPLE_JID = '0@s.whatsapp.net';
+
+/**
+ * Check the content matches the message type. Fields holding a placeholder are checked when the template is sent.
+ */
+const validateTemplateContent = (type: SendMessageType, content: any, options: { mentions?: string[]; viewOnce?: boolean }) => {
+  const built = buildMessageContent(type, content, SAMPLE_JID, options);
+  const errors = withoutPlaceholderErrors(built.errors);
+
+  if (errors.length) {
+    throw createApiError(`Invalid ${type} message`, 422, 'INVALID_MESSAGE_CONTENT', errors);
+  }
+};
+
+const pickTemplateOptions = (options: any = {}): TemplateOptions => ({
+  mentions: options.mentions,
+  viewOnce: options.viewOnce,
+  ephemeralExpiration: options.ephemeralExpiration
+});
+
+const templateValidators = [
+  body('description').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+  body('type').optional().isIn(SEND_MESSAGE_TYPES as unknown as string[]),
+  body('options').optional().isObject(),
+  body('options.mentions').optional().isArray(),
+  body('options.mentions.*').optional().isString(),
+  body('options.viewOnce').optional().isBoolean(),
+  body('options.ephemeralExpiration').optional().isInt({ min: 0 })
+];
+
+/**
+ * @swagger
+ * /api/templates:
+ *   get:
+ *     summary: List message templates
+ *     tags: [Templates]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: search
+ *         description: Part of the name or description
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Templates retrieved successfully
+ */
+router.get('/', [
+  query('type').optional().isIn(SEND_MESSAGE_TYPES as unknown as string[]),
+  query('search').optional().isString().trim(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { page = 1, limit = 50, type, search } = req.query;
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { templates, total } = await dbService.getUserTemplates(req.user!.id, {
+    page: pageNumber,
+    limit: limitNumber,
+    type: type as string | undefined,
+    search: search as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: templates,
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<typeof templates[number]>);
+}));
+
+/**
+ * @swagger
+ * /api/templates:
+ *   post:
+ *     summary: Create a message template
+ *     description: |
+ *       The message takes the same `type`, `content` & `options` as the send endpoint, with `{{variable}}`
+ *       placeholders in any of its texts, captions, URLs or poll options. The placeholders are listed in
+ *       `variables`, every one of them has to be given a value when the template is sent.
+ *
+ *       Templates are sent with /api/messages/{sessionId}/send-template, and can be used
+ *       by scheduled messages & campaigns in place of `type` & `content`.
+ *     tags: [Templates]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - content
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 default: text
+ *               content:
+ *                 type: object
+ *               options:
+ *                 type: object
+ *                 properties:
+ *                   mentions:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   viewOnce:
+ *                     type: boolean
+ *                   ephemeralExpiration:
+ *                     type: integer
+ *     responses:
+ *       201:
+ *         description: Template created successfully
+ *       409:
+ *         description: A template with this name already exists
+ *       422:
+ *         description: Content does not match the message type
+ */
+router.post('/', [
+  body('name').isString().trim().isLength({ min: 1, max: 255 }),
+  body('content').isObject(),
+  ...templateValidators
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { name, description, type = 'text', content } = req.body;
+  const options = pickTemplateOptions(req.body.options);
+
+  validateTemplateContent(type, content, options);
+
+  if (await dbService.getUserTemplateByName(name, req.user!.id)) {
+    return res.status(409).json({
+      success: false,
+      error: 'A template with this name already exists',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const template = await dbService.createTemplate({
+    userId: req.user!.id,
+    name,
+    description,
+    type,
+    content,
+    options: options as Prisma.InputJsonValue,
+    variables: findPlaceholders(content)
+  });
+
+  res.status(201).json({
+    success: true,
+    data: template,
+    message: 'Template created successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/templates/{templateId}:
+ *   get:
+ *     summary: Get a message template
+ *     tags: [Templates]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template retrieved successfully
+ *       404:
+ *         description: Template not found
+ */
+router.get('/:templateId', [
+  param('templateId').notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const template = await dbService.getUserTemplate(req.params.templateId, req.user!.id);
+
+  if (!template) {
+    return res.status(404).json({
+      success: false,
+      error: 'Template not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.json({
+    success: true,
+    data: template,
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/templates/{templateId}:
+ *   put:
+ *     summary: Update a message template
+ *     description: |
+ *       Only the given fields change. `options` replaces the options as a whole.
+ *       Messages already scheduled & campaigns already created keep the content they were created with.
+ *     tags: [Templates]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               type:
+ *                 type: string
+ *               content:
+ *                 type: object
+ *               options:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Template updated successfully
+ *       404:
+ *         description: Template not found
+ *       409:
+ *         description: A template with this name already exists
+ *       422:
+ *         description: Content does not match the message type
+ */
+router.put('/:templateId', [
+  param('templateId').notEmpty(),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  body('content').optional().isObject(),
+  ...templateValidators
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { templateId } = req.params;
+  const { name, description, type, content } = req.body;
+
+  const template = await dbService.getUserTemplate(templateId, req.user!.id);
+
+  if (!template) {
+    return res.status(404).json({
+      success: false,
+      error: 'Template not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const options = req.body.options !== undefined ? pickTemplateOptions(req.body.options) : (template.options || {}) as TemplateOptions;
+  const nextType = (type || template.type) as SendMessageType;
+  const nextContent = content || template.content;
+
+  validateTemplateContent(nextType, nextContent, options);
+
+  if (name !== undefined && name !== template.name && await dbService.getUserTemplateByName(name, req.user!.id)) {
+    return res.status(409).json({
+      success: false,
+      error: 'A template with this name already exists',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const data: Prisma.MessageTemplateUpdateInput = {};
+  if (name !== undefined) data.name = name;
+  if (description !== undefined) data.description = description;
+  if (type !== undefined) data.type = type;
+  if (req.body.options !== undefined) data.options = options as Prisma.InputJsonValue;
+  if (content !== undefined) {
+    data.content = content;
+    data.variables = findPlaceholders(content);
+  }
+
+  const updatedTemplate = await dbService.updateTemplate(templateId, data);
+
+  res.json({
+    success: true,
+    data: updatedTemplate,
+    message: 'Template updated successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/templates/{templateId}:
+ *   delete:
+ *     summary: Delete a message template
+ *     description: Messages already scheduled & campaigns already created from it are still sent
+ *     tags: [Templates]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template deleted successfully
+ *       404:
+ *         description: Template not found
+ */
+router.delete('/:templateId', [
+  param('templateId').notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { templateId } = req.params;
+
+  const template = await dbService.getUserTemplate(templateId, req.user!.id);
+
+  if (!template) {
+    return res.status(404).json({
+      success: false,
+      error: 'Template not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  await dbService.deleteTemplate(templateId);
+
+  res.json({
+    success: true,
+    message: 'Template deleted successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+export default router;
@@ -1,9 +1,9 @@
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { handleValidationErrors, asyncHandler } from '../middleware/errorHandler';
 import { DatabaseService } from '../services/DatabaseService';
 import { WebhookService } from '../services/WebhookService';
-import { ApiResponse } from '../types/api';
+import { ApiResponse, PaginatedResponse } from '../types/api';
 
 const router = Router();
 const dbService = new DatabaseService();
@@ -14,6 +14,7 @@ const webhookService = new WebhookService();
  * /api/webhooks:
  *   get:
  *     summary: Get user webhooks
+ *     description: Includes the webhooks disabled after repeated delivery failures
  *     tags: [Webhooks]
  *     security:
  *       - ApiKeyAuth: []
@@ -22,7 +23,7 @@ const webhookService = new WebhookService();
  *         description: Webhooks retrieved successfully
  */
 router.get('/', asyncHandler(async (req, res) => {
-  const webhooks = await dbService.getUserWebhooks(req.user!.id);
+  const webhooks = await dbService.getUserWebhooks(req.user!.id, true);
 
   res.json({
     success: true,
@@ -85,6 +86,102 @@ router.post('/', [
   } as ApiResponse);
 }));
 
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}:
+ *   put:
+ *     summary: Update a webhook
+ *     description: Setting isActive to true re-enables a webhook disabled after repeated failures
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               secret:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Replaced immediately, use rotate-secret for a grace period
+ *               maxRetries:
+ *                 type: integer
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook updated successfully
+ *       404:
+ *         description: Webhook not found
+ */
+router.put('/:webhookId', [
+  param('webhookId').notEmpty(),
+  body('url').optional().isURL(),
+  body('events').optional().isArray({ min: 1 }),
+  body('events.*').optional().isString().notEmpty(),
+  body('secret').optional({ nullable: true }).isString(),
+  body('maxRetries').optional().isInt({ min: 0, max: 20 }),
+  body('isActive').optional().isBoolean()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { webhookId } = req.params;
+  const { url, events, secret, maxRetries, isActive } = req.body;
+
+  const webhook = await dbService.getUserWebhook(webhookId, req.user!.id);
+
+  if (!webhook) {
+    return res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const data: any = {};
+  if (url !== undefined) data.url = url;
+  if (events !== undefined) data.events = events;
+  if (maxRetries !== undefined) data.maxRetries = maxRetries;
+  if (secret !== undefined) {
+    data.secret = secret;
+    data.previousSecret = null;
+    data.previousSecretExpiresAt = null;
+  }
+
+  if (isActive === true) {
+    data.isActive = true;
+    data.disabledAt = null;
+    data.consecutiveFailures = 0;
+    data.lastError = null;
+  } else if (isActive === false) {
+    // disabledAt tells a paused webhook apart from a deleted one
+    data.isActive = false;
+    data.disabledAt = webhook.disabledAt || new Date();
+  }
+
+  const updatedWebhook = await dbService.updateWebhook(webhookId, data);
+
+  res.json({
+    success: true,
+    data: updatedWebhook,
+    message: 'Webhook updated successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
 /**
  * @swagger
  * /api/webhooks/{webhookId}:
@@ -102,12 +199,24 @@ router.post('/', [
  *     responses:
  *       200:
  *         description: Webhook deleted successfully
+ *       404:
+ *         description: Webhook not found
  */
 router.delete('/:webhookId', [
   param('webhookId').notEmpty()
 ], handleValidationErrors, asyncHandler(async (req, res) => {
   const { webhookId } = req.params;
 
+  const webhook = await dbService.getUserWebhook(webhookId, req.user!.id);
+
+  if (!webhook) {
+    return res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
   await dbService.deleteWebhook(webhookId);
 
   res.json({
@@ -140,6 +249,16 @@ router.post('/:webhookId/test', [
 ], handleValidationErrors, asyncHandler(async (req, res) => {
   const { webhookId } = req.params;
 
+  const webhook = await dbService.getUserWebhook(webhookId, req.user!.id);
+
+  if (!webhook) {
+    return res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
   const success = await webhookService.testWebhook(webhookId);
 
   res.json({
@@ -150,4 +269,251 @@ router.post('/:webhookId/test', [
   } as ApiResponse);
 }));
 
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}/rotate-secret:
+ *   post:
+ *     summary: Rotate the webhook signing secret
+ *     description: |
+ *       The previous secret keeps signing deliveries as a second v1 entry of X-Webhook-Signature
+ *       until the grace period (WEBHOOK_SECRET_ROTATION_GRACE seconds) runs out.
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               secret:
+ *                 type: string
+ *                 description: New secret, generated when omitted
+ *     responses:
+ *       200:
+ *         description: Secret rotated successfully
+ *       404:
+ *         description: Webhook not found
+ */
+router.post('/:webhookId/rotate-secret', [
+  param('webhookId').notEmpty(),
+  body('secret').optional().isString().isLength({ min: 16 })
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { webhookId } = req.params;
+
+  const webhook = await dbService.getUserWebhook(webhookId, req.user!.id);
+
+  if (!webhook) {
+    return res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const updatedWebhook = await webhookService.rotateSecret(webhookId, req.body.secret);
+
+  res.json({
+    success: true,
+    data: {
+      secret: updatedWebhook.secret,
+      previousSecretExpiresAt: updatedWebhook.previousSecretExpiresAt
+    },
+    message: 'Webhook secret rotated successfully',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}/deliveries:
+ *   get:
+ *     summary: Get the delivery history of a webhook
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, DELIVERING, SUCCESS, FAILED, RETRYING]
+ *       - in: query
+ *         name: event
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deliveries retrieved successfully, with the endpoint response of the last attempt
+ *       404:
+ *         description: Webhook not found
+ */
+router.get('/:webhookId/deliveries', [
+  param('webhookId').notEmpty(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('status').optional().isIn(['PENDING', 'DELIVERING', 'SUCCESS', 'FAILED', 'RETRYING']),
+  query('event').optional().isString()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { webhookId } = req.params;
+  const { page = 1, limit = 50, status, event } = req.query;
+
+  const webhook = await dbService.getUserWebhook(webhookId, req.user!.id);
+
+  if (!webhook) {
+    return res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const pageNumber = parseInt(page as string);
+  const limitNumber = parseInt(limit as string);
+  const { deliveries, total } = await webhookService.getWebhookDeliveries(webhookId, {
+    page: pageNumber,
+    limit: limitNumber,
+    status: status as string | undefined,
+    event: event as string | undefined
+  });
+
+  res.json({
+    success: true,
+    data: deliveries,
+    pagination: {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber)
+    },
+    timestamp: new Date().toISOString()
+  } as PaginatedResponse<typeof deliveries[number]>);
+}));
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}/deliveries/{deliveryId}/replay:
+ *   post:
+ *     summary: Replay a single delivery
+ *     description: Queues a new delivery with the same event & payload, the original is left untouched
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Delivery queued
+ *       404:
+ *         description: Webhook or delivery not found
+ */
+router.post('/:webhookId/deliveries/:deliveryId/replay', [
+  param('webhookId').notEmpty(),
+  param('deliveryId').notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { webhookId, deliveryId } = req.params;
+
+  const webhook = await dbService.getUserWebhook(webhookId, req.user!.id);
+
+  if (!webhook) {
+    return res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const delivery = await webhookService.replayDelivery(webhookId, deliveryId);
+
+  if (!delivery) {
+    return res.status(404).json({
+      success: false,
+      error: 'Delivery not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  res.status(202).json({
+    success: true,
+    data: delivery,
+    message: webhook.isActive ? 'Delivery queued' : 'Delivery queued, it will fail until the webhook is re-enabled',
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}/deliveries/retry-failed:
+ *   post:
+ *     summary: Queue every failed delivery of a webhook again
+ *     tags: [Webhooks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Failed deliveries queued
+ *       404:
+ *         description: Webhook not found
+ */
+router.post('/:webhookId/deliveries/retry-failed', [
+  param('webhookId').notEmpty()
+], handleValidationErrors, asyncHandler(async (req, res) => {
+  const { webhookId } = req.params;
+
+  const webhook = await dbService.getUserWebhook(webhookId, req.user!.id);
+
+  if (!webhook) {
+    return res.status(404).json({
+      success: false,
+      error: 'Webhook not found',
+      timestamp: new Date().toISOString()
+    } as ApiResponse);
+  }
+
+  const count = await webhookService.retryFailedDeliveries(webhookId);
+
+  res.status(202).json({
+    success: true,
+    data: { queued: count },
+    message: `${count} failed deliveries queued`,
+    timestamp: new Date().toISOString()
+  } as ApiResponse);
+}));
+
 export default router;
@@ -0,0 +1,504 @@
+import { Campaign, CampaignRecipient, Prisma } from '@prisma/client';
+import { DatabaseService } from './DatabaseService';
+import { WhatsAppService } from './WhatsAppService';
+import { claimLease, PollingWorker } from './PollingWorker';
+import { areJidsSameUser, generateMessageIDV2, WASocket } from '../index';
+import { createLogger } from '../utils/apiLogger';
+import { buildMessageContent, SendMessageType } from '../Utils/messageContent';
+import { CampaignRecipientEntry, pickSendInterval } from '../Utils/campaign';
+import { renderTemplate } from '../Utils/template';
+import { SessionStatus, WebhookEvent } from '../types/api';
+
+const campaignLogger = createLogger('campaign');
+
+export interface CreateCampaignRequest {
+  sessionId: string;
+  name: string;
+  type: SendMessageType;
+  content: any;
+  options?: {
+    mentions?: string[];
+    viewOnce?: boolean;
+    ephemeralExpiration?: number;
+  };
+  recipients: CampaignRecipientEntry[];
+  minIntervalMs?: number;
+  maxIntervalMs?: number;
+  dailyLimit?: number;
+  startAt?: Date;
+  createdBy?: string;
+  templateId?: string;
+}
+
+type CampaignOptions = NonNullable<CreateCampaignRequest['options']>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sends campaigns one message at a time, with a random pause between two messages and a cap
+ * on the messages a session sends in 24 hours. Campaigns of the same session take turns,
+ * so running several of them doesn't speed the session up.
+ */
+export class CampaignService {
+  private dbService: DatabaseService;
+  private whatsAppService: WhatsAppService;
+
+  private readonly pollIntervalMs = parseInt(process.env.CAMPAIGN_POLL_INTERVAL_MS || '2000');
+  private readonly defaultMinIntervalMs = parseInt(process.env.CAMPAIGN_MIN_INTERVAL_MS || '5000');
+  private readonly defaultMaxIntervalMs = parseInt(process.env.CAMPAIGN_MAX_INTERVAL_MS || '15000');
+  private readonly defaultDailyLimit = parseInt(process.env.CAMPAIGN_DAILY_LIMIT || '1000');
+  // Numbers looked up on WhatsApp in one query
+  private readonly checkBatchSize = parseInt(process.env.CAMPAIGN_CHECK_BATCH_SIZE || '50');
+  private readonly leaseMs = 2 * 60 * 1000;
+  private readonly reconnectWaitMs = 30 * 1000;
+  private readonly worker = new PollingWorker(
+    'Campaign worker',
+    this.pollIntervalMs,
+    campaignLogger,
+    () => this.processDueCampaigns()
+  );
+
+  constructor(whatsAppService: WhatsAppService) {
+    this.dbService = new DatabaseService();
+    this.whatsAppService = whatsAppService;
+  }
+
+  /**
+   * Start polling for campaigns due to send
+   */
+  start(): void {
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+
+  async createCampaign(request: CreateCampaignRequest): Promise<Campaign> {
+    const { sessionId, recipients, options, startAt, ...data } = request;
+    const minIntervalMs = request.minIntervalMs || this.defaultMinIntervalMs;
+
+    const campaign = await this.dbService.client.$transaction(async (tx) => {
+      const created = await tx.campaign.create({
+        data: {
+          ...data,
+          sessionId,
+          options: options as Prisma.InputJsonValue,
+          minIntervalMs,
+          maxIntervalMs: Math.max(minIntervalMs, request.maxIntervalMs || this.defaultMaxIntervalMs),
+          dailyLimit: request.dailyLimit || this.defaultDailyLimit,
+          nextSendAt: startAt || new Date()
+        }
+      });
+
+      await tx.campaignRecipient.createMany({
+        data: recipients.map(recipient => ({
+          campaignId: created.id,
+          jid: recipient.jid,
+          phoneNumber: recipient.phoneNumber,
+          variables: recipient.variables
+        })),
+        skipDuplicates: true
+      });
+
+      return created;
+    }, { timeout: 60000 });
+
+    campaignLogger.info({ id: campaign.id, sessionId, recipients: recipients.length }, `Campaign created`);
+    return campaign;
+  }
+
+  async getCampaigns(sessionId: string, options: { page?: number; limit?: number; status?: string } = {}) {
+    const { page = 1, limit = 50, status } = options;
+    const where: Prisma.CampaignWhereInput = {
+      sessionId,
+      ...(status && { status: status as Prisma.CampaignWhereInput['status'] })
+    };
+
+    const [campaigns, total] = await Promise.all([
+      this.dbService.client.campaign.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit
+      }),
+      this.dbService.client.campaign.count({ where })
+    ]);
+
+    return { campaigns, total };
+  }
+
+  async getCampaign(sessionId: string, campaignId: string): Promise<Campaign | null> {
+    return this.dbService.client.campaign.findFirst({
+      where: { id: campaignId, sessionId }
+    });
+  }
+
+  /**
+   * Recipient counts per status, and the share of recipients the campaign is done with
+   */
+  async getCampaignProgress(campaignId: string) {
+    const groups = await this.dbService.client.campaignRecipient.groupBy({
+      by: ['status'],
+      where: { campaignId },
+      _count: { _all: true }
+    });
+
+    const counts: Record<string, number> = {
+      QUEUED: 0,
+      SENT: 0,
+      DELIVERED: 0,
+      READ: 0,
+      FAILED: 0,
+      NOT_ON_WHATSAPP: 0
+    };
+
+    for (const group of groups) {
+      counts[group.status] = group._count._all;
+    }
+
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    return {
+      total,
+      ...counts,
+      percentComplete: total ? Math.round((total - counts.QUEUED) / total * 1000) / 10 : 100
+    };
+  }
+
+  async getCampaignRecipients(
+    campaignId: string,
+    options: { page?: number; limit?: number; status?: string } = {}
+  ) {
+    const { page = 1, limit = 50, status } = options;
+    const where: Prisma.CampaignRecipientWhereInput = {
+      campaignId,
+      ...(status && { status: status as Prisma.CampaignRecipientWhereInput['status'] })
+    };
+
+    const [recipients, total] = await Promise.all([
+      this.dbService.client.campaignRecipient.findMany({
+        where,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: limit,
+        skip: (page - 1) * limit
+      }),
+      this.dbService.client.campaignRecipient.count({ where })
+    ]);
+
+    return { recipients, total };
+  }
+
+  /**
+   * The status changes below resolve to null when the campaign isn't in a status they apply to
+   */
+  async pauseCampaign(sessionId: string, campaignId: string): Promise<Campaign | null> {
+    return this.changeStatus(sessionId, campaignId, ['RUNNING'], { status: 'PAUSED' });
+  }
+
+  async resumeCampaign(sessionId: string, campaignId: string): Promise<Campaign | null> {
+    return this.changeStatus(sessionId, campaignId, ['PAUSED'], {
+      status: 'RUNNING',
+      nextSendAt: new Date(),
+      lastError: null
+    });
+  }
+
+  async cancelCampaign(sessionId: string, campaignId: string): Promise<Campaign | null> {
+    return this.changeStatus(sessionId, campaignId, ['RUNNING', 'PAUSED'], {
+      status: 'CANCELLED',
+      completedAt: new Date()
+    });
+  }
+
+  private async changeStatus(
+    sessionId: string,
+    campaignId: string,
+    from: Campaign['status'][],
+    data: Prisma.CampaignUpdateManyMutationInput
+  ): Promise<Campaign | null> {
+    const { count } = await this.dbService.client.campaign.updateMany({
+      where: { id: campaignId, sessionId, status: { in: from } },
+      data
+    });
+
+    if (!count) return null;
+
+    const campaign = await this.getCampaign(sessionId, campaignId);
+    if (campaign) {
+      await this.dispatchStatus(campaign);
+    }
+
+    return campaign;
+  }
+
+  private async processDueCampaigns(): Promise<void> {
+    const campaigns = await this.dbService.client.campaign.findMany({
+      where: {
+        status: 'RUNNING',
+        nextSendAt: { lte: new Date() }
+      },
+      orderBy: { nextSendAt: 'asc' }
+    });
+
+    const handledSessions = new Set<string>();
+    for (const campaign of campaigns) {
+      // one message per session and poll, the earliest due campaign goes first
+      if (handledSessions.has(campaign.sessionId)) continue;
+      if (!(await this.claimCampaign(campaign))) continue;
+
+      handledSessions.add(campaign.sessionId);
+      try {
+        await this.processCampaign(campaign);
+      } catch (error) {
+        campaignLogger.error(`Error processing campaign ${campaign.id}:`, error);
+        await this.setNextSend(campaign.id, new Date(Date.now() + this.reconnectWaitMs), error.message);
+      }
+    }
+  }
+
+  private async claimCampaign(campaign: Campaign): Promise<boolean> {
+    // only matches if nobody moved the campaign on since it was read
+    return claimLease(this.leaseMs, leaseUntil => this.dbService.client.campaign.updateMany({
+      where: {
+        id: campaign.id,
+        status: 'RUNNING',
+        nextSendAt: campaign.nextSendAt
+      },
+      data: {
+        nextSendAt: leaseUntil
+      }
+    }));
+  }
+
+  private async processCampaign(campaign: Campaign): Promise<void> {
+    const session = await this.whatsAppService.getSession(campaign.sessionId);
+    if (!session) {
+      await this.dbService.client.campaign.update({
+        where: { id: campaign.id },
+        data: { status: 'PAUSED', lastError: 'Session not found' }
+      });
+      await this.dispatchStatus({ ...campaign, status: 'PAUSED', lastError: 'Session not found' });
+      return;
+    }
+
+    if (session.status !== SessionStatus.CONNECTED || !session.socket) {
+      await this.setNextSend(campaign.id, new Date(Date.now() + this.reconnectWaitMs), `Session not connected (${session.status})`);
+      return;
+    }
+
+    const sentSince = new Date(Date.now() - DAY_MS);
+    const sentToday = await this.dbService.client.campaignRecipient.count({
+      where: { sentAt: { gte: sentSince }, campaign: { sessionId: campaign.sessionId } }
+    });
+
+    if (sentToday >= campaign.dailyLimit) {
+      // resume once the oldest send of the window is 24 hours old
+      const oldest = await this.dbService.client.campaignRecipient.findFirst({
+        where: { sentAt: { gte: sentSince }, campaign: { sessionId: campaign.sessionId } },
+        orderBy: { sentAt: 'asc' }
+      });
+
+      await this.setNextSend(campaign.id, new Date(oldest!.sentAt!.getTime() + DAY_MS), 'Daily limit reached');
+      return;
+    }
+
+    const recipient = await this.nextRecipient(campaign, session.socket);
+    if (!recipient) {
+      await this.completeCampaign(campaign);
+      return;
+    }
+
+    if (!campaign.startedAt) {
+      await this.dbService.client.campaign.update({
+        where: { id: campaign.id },
+        data: { startedAt: new Date() }
+      });
+    }
+
+    const sent = await this.sendToRecipient(campaign, recipient, session.socket);
+    const delay = sent ? pickSendInterval(campaign.minIntervalMs, campaign.maxIntervalMs) : 0;
+    await this.setNextSend(campaign.id, new Date(Date.now() + delay), null);
+  }
+
+  /**
+   * Next queued recipient, after looking up the numbers on WhatsApp a batch at a time
+   */
+  private async nextRecipient(campaign: Campaign, socket: WASocket): Promise<CampaignRecipient | null> {
+    let recipient = await this.findQueuedRecipient(campaign.id);
+    while (recipient && !recipient.checkedAt) {
+      await this.checkRecipients(campaign, socket);
+      recipient = await this.findQueuedRecipient(campaign.id);
+    }
+
+    return recipient;
+  }
+
+  private async findQueuedRecipient(campaignId: string): Promise<CampaignRecipient | null> {
+    return this.dbService.client.campaignRecipient.findFirst({
+      where: { campaignId, status: 'QUEUED' },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+  }
+
+  private async checkRecipients(campaign: Campaign, socket: WASocket): Promise<void> {
+    const unchecked = await this.dbService.client.campaignRecipient.findMany({
+      where: { campaignId: campaign.id, status: 'QUEUED', checkedAt: null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: this.checkBatchSize
+    });
+
+    const results = await socket.onWhatsApp(...unchecked.map(recipient => recipient.jid));
+    if (!results) {
+      throw new Error('Failed to look up the recipients on WhatsApp');
+    }
+
+    const registered = new Map<string, string>();
+    for (const recipient of unchecked) {
+      const result = results.find(entry => entry.exists && areJidsSameUser(entry.jid, recipient.jid));
+      if (result) {
+        registered.set(recipient.id, result.jid);
+      }
+    }
+
+    const missing = unchecked.filter(recipient => !registered.has(recipient.id));
+    const checkedAt = new Date();
+
+    await this.dbService.client.$transaction([
+      this.dbService.client.campaignRecipient.updateMany({
+        where: { id: { in: Array.from(registered.keys()) } },
+        data: { checkedAt }
+      }),
+      // messages go to the JID WhatsApp returned
+      ...unchecked
+        .filter(recipient => registered.has(recipient.id) && registered.get(recipient.id) !== recipient.jid)
+        .map(recipient => this.dbService.client.campaignRecipient.update({
+          where: { id: recipient.id },
+          data: { jid: registered.get(recipient.id) }
+        })),
+      this.dbService.client.campaignRecipient.updateMany({
+        where: { id: { in: missing.map(recipient => recipient.id) } },
+        data: { checkedAt, status: 'NOT_ON_WHATSAPP' }
+      })
+    ]);
+
+    for (const recipient of missing) {
+      await this.dispatchRecipient(campaign, { ...recipient, status: 'NOT_ON_WHATSAPP' });
+    }
+  }
+
+  /**
+   * Send the campaign message to one recipient, resolves to false when nothing was sent
+   */
+  private async sendToRecipient(campaign: Campaign, recipient: CampaignRecipient, socket: WASocket): Promise<boolean> {
+    // A previous attempt may have sent it before being interrupted
+    if (recipient.messageId) {
+      const message = await this.dbService.getMessage(campaign.sessionId, recipient.messageId);
+      if (message && message.status !== 'PENDING' && message.status !== 'FAILED') {
+        await this.markRecipientSent(campaign, recipient, recipient.messageId);
+        return false;
+      }
+    }
+
+    const options = (campaign.options || {}) as CampaignOptions;
+    const variables = (recipient.variables || {}) as Record<string, string>;
+    const built = buildMessageContent(campaign.type as SendMessageType, renderTemplate(campaign.content, variables), recipient.jid, {
+      mentions: options.mentions,
+      viewOnce: options.viewOnce
+    });
+
+    if (!built.content) {
+      await this.markRecipientFailed(campaign, recipient, built.errors.map(error => `${error.field}: ${error.message}`).join(', '));
+      return false;
+    }
+
+    // Stored before sending, so receipts can be matched even if they beat the send result
+    const messageId = recipient.messageId || generateMessageIDV2(socket.user?.id);
+    if (!recipient.messageId) {
+      await this.dbService.client.campaignRecipient.update({
+        where: { id: recipient.id },
+        data: { messageId }
+      });
+    }
+
+    try {
+      await this.whatsAppService.sendMessage(campaign.sessionId, recipient.jid, built.content, {
+        messageId,
+        ...(options.ephemeralExpiration !== undefined && { ephemeralExpiration: options.ephemeralExpiration })
+      }, {
+        source: 'campaign',
+        requestedBy: campaign.createdBy || undefined,
+        correlationId: campaign.id,
+        requestPayload: { campaignId: campaign.id, recipientId: recipient.id }
+      });
+
+      await this.markRecipientSent(campaign, recipient, messageId);
+    } catch (error) {
+      await this.markRecipientFailed(campaign, recipient, error.message);
+    }
+
+    return true;
+  }
+
+  private async markRecipientSent(campaign: Campaign, recipient: CampaignRecipient, messageId: string): Promise<void> {
+    // Left alone when a receipt already moved it further
+    await this.dbService.client.campaignRecipient.updateMany({
+      where: { id: recipient.id, status: 'QUEUED' },
+      data: { status: 'SENT', messageId, sentAt: new Date(), error: null }
+    });
+
+    await this.dispatchRecipient(campaign, { ...recipient, status: 'SENT', messageId });
+  }
+
+  private async markRecipientFailed(campaign: Campaign, recipient: CampaignRecipient, error: string): Promise<void> {
+    await this.dbService.client.campaignRecipient.update({
+      where: { id: recipient.id },
+      data: { status: 'FAILED', error }
+    });
+
+    campaignLogger.warn({ campaignId: campaign.id, jid: recipient.jid, error }, `Campaign message failed`);
+    await this.dispatchRecipient(campaign, { ...recipient, status: 'FAILED', error });
+  }
+
+  private async completeCampaign(campaign: Campaign): Promise<void> {
+    const { count } = await this.dbService.client.campaign.updateMany({
+      where: { id: campaign.id, status: 'RUNNING' },
+      data: { status: 'COMPLETED', completedAt: new Date(), lastError: null }
+    });
+
+    if (count) {
+      campaignLogger.info({ id: campaign.id, sessionId: campaign.sessionId }, `Campaign completed`);
+      await this.dispatchStatus({ ...campaign, status: 'COMPLETED', completedAt: new Date(), lastError: null });
+    }
+  }
+
+  private async setNextSend(campaignId: string, nextSendAt: Date, lastError: string | null): Promise<void> {
+    await this.dbService.client.campaign.update({
+      where: { id: campaignId },
+      data: { nextSendAt, lastError }
+    });
+  }
+
+  private async dispatchStatus(campaign: Campaign): Promise<void> {
+    await this.whatsAppService.dispatchEvent(campaign.sessionId, 'campaignStatus', WebhookEvent.CAMPAIGN_STATUS, {
+      campaign: {
+        id: campaign.id,
+        name: campaign.name,
+        status: campaign.status,
+        startedAt: campaign.startedAt,
+        completedAt: campaign.completedAt,
+        error: campaign.lastError
+      },
+      progress: await this.getCampaignProgress(campaign.id)
+    });
+  }
+
+  private async dispatchRecipient(campaign: Campaign, recipient: CampaignRecipient): Promise<void> {
+    await this.whatsAppService.dispatchEvent(campaign.sessionId, 'campaignRecipient', WebhookEvent.CAMPAIGN_RECIPIENT, {
+      campaignId: campaign.id,
+      jid: recipient.jid,
+      messageId: recipient.messageId,
+      status: recipient.status,
+      ...(recipient.error && { error: recipient.error })
+    });
+  }
+}
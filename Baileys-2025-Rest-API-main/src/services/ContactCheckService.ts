@@ -0,0 +1,192 @@
+import { Contact } from '@prisma/client';
+import { chunk } from 'lodash';
+import { DatabaseService } from './DatabaseService';
+import { WhatsAppService } from './WhatsAppService';
+import { areJidsSameUser, DisappearingModeData, StatusData, WASocket } from '../index';
+import { createLogger } from '../utils/apiLogger';
+import { isFresh, normalizePhoneNumber } from '../Utils/contacts';
+
+const contactLogger = createLogger('contacts');
+
+export interface ContactCheckOptions {
+  // country calling code of numbers written the national way, e.g. "44"
+  defaultCountryCode?: string;
+  // also fetch the about text, business profile, profile picture & disappearing messages timer
+  enrich?: boolean;
+  // ignore the cached results
+  refresh?: boolean;
+}
+
+export interface ContactCheckResult {
+  input: string;
+  valid: boolean;
+  phoneNumber?: string;
+  jid?: string;
+  exists?: boolean;
+  lid?: string | null;
+  about?: string | null;
+  aboutSetAt?: Date | null;
+  isBusiness?: boolean | null;
+  businessProfile?: unknown;
+  profilePicUrl?: string | null;
+  disappearingDuration?: number | null;
+  checkedAt?: Date | null;
+  enrichedAt?: Date | null;
+}
+
+// What a check writes on a contact
+type CheckedContactData = {
+  isOnWhatsApp?: boolean;
+  lid?: string | null;
+  checkedAt?: Date;
+  about?: string | null;
+  aboutSetAt?: Date | null;
+  isBusiness?: boolean;
+  businessProfile?: any;
+  profilePicUrl?: string | null;
+  disappearingDuration?: number;
+  enrichedAt?: Date;
+};
+
+/**
+ * Checks phone numbers on WhatsApp & looks up their public profile. Results are kept
+ * on the contacts of the session and reused until they're older than their TTL,
+ * the profile going stale sooner than whether the number is on WhatsApp.
+ */
+export class ContactCheckService {
+  private dbService: DatabaseService;
+  private whatsAppService: WhatsAppService;
+
+  // Numbers looked up on WhatsApp in one query
+  private readonly batchSize = parseInt(process.env.CONTACT_CHECK_BATCH_SIZE || '50');
+  private readonly existenceTtlSeconds = parseInt(process.env.CONTACT_CHECK_TTL || '604800');
+  private readonly profileTtlSeconds = parseInt(process.env.CONTACT_PROFILE_TTL || '86400');
+
+  constructor(whatsAppService: WhatsAppService) {
+    this.dbService = new DatabaseService();
+    this.whatsAppService = whatsAppService;
+  }
+
+  /**
+   * Check numbers given in any format, every input gets a result in the order given
+   */
+  async checkNumbers(sessionId: string, inputs: string[], options: ContactCheckOptions = {}): Promise<ContactCheckResult[]> {
+    const session = await this.whatsAppService.getSession(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    const { defaultCountryCode, enrich = true, refresh = false } = options;
+    const normalized = inputs.map(input => ({ input, number: normalizePhoneNumber(input, defaultCountryCode) }));
+    const jids = Array.from(new Set(normalized.filter(entry => entry.number).map(entry => entry.number!.jid)));
+
+    const contacts = await this.getContacts(sessionId, jids);
+
+    const unchecked = jids.filter(jid => {
+      const contact = contacts.get(jid);
+      return refresh || contact?.isOnWhatsApp == null || !isFresh(contact?.checkedAt, this.existenceTtlSeconds);
+    });
+    for (const batch of chunk(unchecked, this.batchSize)) {
+      await this.checkExistence(sessionId, session.socket, batch, contacts);
+    }
+
+    if (enrich) {
+      const stale = jids.filter(jid => {
+        const contact = contacts.get(jid);
+        return contact?.isOnWhatsApp && (refresh || !isFresh(contact.enrichedAt, this.profileTtlSeconds));
+      });
+      for (const batch of chunk(stale, this.batchSize)) {
+        await this.fetchProfiles(sessionId, session.socket, batch, contacts);
+      }
+    }
+
+    return normalized.map(({ input, number }) => {
+      if (!number) {
+        return { input, valid: false };
+      }
+
+      const contact = contacts.get(number.jid);
+      return {
+        input,
+        valid: true,
+        phoneNumber: number.e164,
+        jid: number.jid,
+        exists: !!contact?.isOnWhatsApp,
+        lid: contact?.lid,
+        checkedAt: contact?.checkedAt,
+        ...(enrich && contact?.isOnWhatsApp && {
+          about: contact.about,
+          aboutSetAt: contact.aboutSetAt,
+          isBusiness: contact.isBusiness,
+          businessProfile: contact.businessProfile,
+          profilePicUrl: contact.profilePicUrl,
+          disappearingDuration: contact.disappearingDuration,
+          enrichedAt: contact.enrichedAt
+        })
+      };
+    });
+  }
+
+  private async getContacts(sessionId: string, jids: string[]): Promise<Map<string, Contact>> {
+    const rows = await this.dbService.client.contact.findMany({
+      where: { sessionId, jid: { in: jids } }
+    });
+
+    return new Map(rows.map(row => [row.jid, row]));
+  }
+
+  private async checkExistence(sessionId: string, socket: WASocket, jids: string[], contacts: Map<string, Contact>) {
+    const results = await socket.onWhatsApp(...jids);
+    if (!results) {
+      throw new Error('Failed to look up the numbers on WhatsApp');
+    }
+
+    const checkedAt = new Date();
+    for (const jid of jids) {
+      // numbers that aren't on WhatsApp are left out of the results
+      const result = results.find(entry => entry.exists && areJidsSameUser(entry.jid, jid));
+      const data = { isOnWhatsApp: !!result, lid: (result?.lid as string | undefined) || null, checkedAt };
+
+      contacts.set(jid, await this.saveContact(sessionId, jid, data));
+    }
+  }
+
+  private async fetchProfiles(sessionId: string, socket: WASocket, jids: string[], contacts: Map<string, Contact>) {
+    const [statuses, disappearingModes] = await Promise.all([
+      socket.fetchStatus(...jids),
+      socket.fetchDisappearingDuration(...jids)
+    ]);
+
+    for (const jid of jids) {
+      try {
+        const status = statuses?.find(entry => areJidsSameUser(entry.id, jid))?.status as StatusData | undefined;
+        const disappearingMode = disappearingModes?.find(entry => areJidsSameUser(entry.id, jid))
+          ?.disappearing_mode as DisappearingModeData | undefined;
+        const businessProfile = await socket.getBusinessProfile(jid);
+        // not set or hidden by the privacy settings of the contact
+        const profilePicUrl = await socket.profilePictureUrl(jid, 'image').catch(() => undefined);
+
+        contacts.set(jid, await this.saveContact(sessionId, jid, {
+          about: status?.status || null,
+          aboutSetAt: status?.setAt || null,
+          isBusiness: !!businessProfile,
+          businessProfile: businessProfile || undefined,
+          profilePicUrl: profilePicUrl || null,
+          disappearingDuration: disappearingMode?.duration || 0,
+          enrichedAt: new Date()
+        }));
+      } catch (error) {
+        // the stale profile is returned, it's fetched again on the next check
+        contactLogger.error(`Failed to fetch the profile of ${jid} for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async saveContact(sessionId: string, jid: string, data: CheckedContactData) {
+    return this.dbService.client.contact.upsert({
+      where: { sessionId_jid: { sessionId, jid } },
+      update: data,
+      create: { sessionId, jid, ...data }
+    });
+  }
+}
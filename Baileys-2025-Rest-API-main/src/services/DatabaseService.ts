@@ -1,5 +1,6 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { logger } from '../utils/apiLogger';
+import { DeliveryStatus, isStatusAdvance } from '../Utils/messageStatus';
 
 export class DatabaseService {
   private prisma: PrismaClient;
@@ -174,6 +175,23 @@ export class DatabaseService {
     });
   }
 
+  async getRestorableSessions() {
+    return this.prisma.session.findMany({
+      where: { isActive: true },
+      orderBy: { lastSeen: 'desc' }
+    });
+  }
+
+  async clearAuthState(sessionId: string) {
+    return this.prisma.$transaction([
+      this.prisma.authKey.deleteMany({ where: { sessionId } }),
+      this.prisma.session.update({
+        where: { sessionId },
+        data: { authData: Prisma.DbNull }
+      })
+    ]);
+  }
+
   async deleteSession(sessionId: string) {
     return this.prisma.session.update({
       where: { sessionId },
@@ -182,6 +200,11 @@ export class DatabaseService {
   }
 
   // Message operations
+  /**
+   * Insert a message, or refresh the content of one already stored.
+   * The API request an outbound message came from is only set when it is recorded before sending,
+   * and is left untouched when the message comes back through messages.upsert.
+   */
   async saveMessage(data: {
     messageId: string;
     sessionId: string;
@@ -194,27 +217,268 @@ export class DatabaseService {
     timestamp: Date;
     quotedMessage?: string;
     metadata?: any;
+    source?: string;
+    requestedBy?: string;
+    correlationId?: string;
+    requestPayload?: any;
+  }) {
+    const { source, requestedBy, correlationId, requestPayload, ...record } = data;
+
+    return this.prisma.message.upsert({
+      where: {
+        sessionId_messageId: {
+          sessionId: data.sessionId,
+          messageId: data.messageId
+        }
+      },
+      update: {
+        content: record.content,
+        messageType: record.messageType as any,
+        fromJid: record.fromJid,
+        quotedMessage: record.quotedMessage,
+        metadata: record.metadata
+      },
+      create: {
+        ...record,
+        messageType: record.messageType as any,
+        source,
+        requestedBy,
+        correlationId,
+        requestPayload
+      }
+    });
+  }
+
+  /**
+   * Record a status change in the message timeline, and move the message status
+   * forward when it is an advance. Returns null when the message isn't stored.
+   */
+  async advanceMessageStatus(sessionId: string, messageId: string, event: {
+    status: DeliveryStatus;
+    recipient?: string;
+    error?: string;
+    timestamp?: Date;
   }) {
-    return this.prisma.message.create({
+    const message = await this.getMessage(sessionId, messageId);
+    if (!message) return null;
+
+    // Receipts are repeated on reconnects, keep a single entry per recipient & status
+    const existing = await this.prisma.messageStatusEvent.findFirst({
+      where: { messageId: message.id, status: event.status, recipient: event.recipient || null }
+    });
+
+    const operations: Prisma.PrismaPromise<unknown>[] = [];
+    if (!existing) {
+      operations.push(this.prisma.messageStatusEvent.create({
+        data: {
+          messageId: message.id,
+          status: event.status,
+          recipient: event.recipient,
+          error: event.error,
+          timestamp: event.timestamp || new Date()
+        }
+      }));
+    }
+
+    const advanced = isStatusAdvance(message.status, event.status);
+    if (advanced) {
+      operations.push(this.prisma.message.update({
+        where: { id: message.id },
+        data: {
+          status: event.status,
+          ...(event.status === 'FAILED' && { error: event.error })
+        }
+      }));
+    }
+
+    if (operations.length) {
+      await this.prisma.$transaction(operations);
+    }
+
+    return { ...message, status: advanced ? event.status : message.status };
+  }
+
+  /**
+   * Follow the receipts of a campaign message on its recipient, the status only moves forward
+   * like the one of the message. Returns the number of recipients updated.
+   */
+  async advanceCampaignRecipient(campaignId: string, messageId: string, status: DeliveryStatus, at = new Date()) {
+    // receipts can beat the campaign worker marking the recipient as sent
+    const advancesFrom: Partial<Record<DeliveryStatus, ('QUEUED' | 'SENT' | 'DELIVERED' | 'FAILED')[]>> = {
+      DELIVERED: ['QUEUED', 'SENT', 'FAILED'],
+      READ: ['QUEUED', 'SENT', 'DELIVERED', 'FAILED'],
+      FAILED: ['SENT']
+    };
+
+    const from = advancesFrom[status];
+    if (!from) return 0;
+
+    const { count } = await this.prisma.campaignRecipient.updateMany({
+      where: { campaignId, messageId, status: { in: from } },
       data: {
-        ...data,
-        messageType: data.messageType as any
+        status: status as 'DELIVERED' | 'READ' | 'FAILED',
+        ...(status === 'DELIVERED' && { deliveredAt: at }),
+        ...(status === 'READ' && { readAt: at })
       }
     });
+
+    return count;
   }
 
-  async updateMessageStatus(messageId: string, sessionId: string, status: string) {
+  async getMessageStatusTimeline(sessionId: string, messageId: string) {
+    return this.prisma.message.findUnique({
+      where: {
+        sessionId_messageId: {
+          sessionId,
+          messageId
+        }
+      },
+      include: {
+        statusEvents: {
+          orderBy: { timestamp: 'asc' }
+        }
+      }
+    });
+  }
+
+  async getMessage(sessionId: string, messageId: string) {
+    return this.prisma.message.findUnique({
+      where: {
+        sessionId_messageId: {
+          sessionId,
+          messageId
+        }
+      }
+    });
+  }
+
+  async updateMessageContent(sessionId: string, messageId: string, content: any) {
     return this.prisma.message.updateMany({
       where: { messageId, sessionId },
-      data: { status: status as any }
+      data: { content }
     });
   }
 
-  async getMessages(sessionId: string, chatId?: string, limit = 50, offset = 0) {
+  /**
+   * Record the archived copy of the media of a message
+   */
+  async updateMessageMedia(sessionId: string, messageId: string, media: {
+    mediaAssetId: string;
+    mediaPath: string;
+    mediaSha256: string;
+    mediaSize: number;
+  }) {
+    return this.prisma.message.updateMany({
+      where: { messageId, sessionId },
+      data: { ...media, mediaArchivedAt: new Date() }
+    });
+  }
+
+  async markMessagesDeleted(sessionId: string, messageIds: string[]) {
+    return this.prisma.message.updateMany({
+      where: { sessionId, messageId: { in: messageIds } },
+      data: { isDeleted: true }
+    });
+  }
+
+  async markChatMessagesDeleted(sessionId: string, chatId: string) {
+    return this.prisma.message.updateMany({
+      where: { sessionId, chatId },
+      data: { isDeleted: true }
+    });
+  }
+
+  /**
+   * Keep the latest reaction of each sender, an empty text removes it
+   */
+  async updateMessageReaction(sessionId: string, messageId: string, senderJid: string, reaction: any) {
+    const message = await this.getMessage(sessionId, messageId);
+    if (!message) return null;
+
+    const reactions = { ...(message.reactions as Record<string, any> | null) };
+    if (reaction?.text) {
+      reactions[senderJid] = reaction;
+    } else {
+      delete reactions[senderJid];
+    }
+
+    return this.prisma.message.update({
+      where: { id: message.id },
+      data: { reactions }
+    });
+  }
+
+  async updateMessageReceipt(sessionId: string, messageId: string, userJid: string, receipt: any) {
+    const message = await this.getMessage(sessionId, messageId);
+    if (!message) return null;
+
+    const receipts = { ...(message.receipts as Record<string, any> | null) };
+    receipts[userJid] = { ...receipts[userJid], ...receipt };
+
+    return this.prisma.message.update({
+      where: { id: message.id },
+      data: { receipts }
+    });
+  }
+
+  async getOldestMessage(sessionId: string, chatId: string) {
+    return this.prisma.message.findFirst({
+      where: { sessionId, chatId },
+      orderBy: { timestamp: 'asc' }
+    });
+  }
+
+  /**
+   * Write one batch of a history sync in a single transaction.
+   * Chats & contacts are upserted, messages already stored are left as they are.
+   */
+  async saveHistoryBatch(sessionId: string, batch: {
+    chats: { jid: string; name?: string; isGroup: boolean; isArchived?: boolean; isPinned?: boolean; isMuted?: boolean; unreadCount?: number; metadata?: any }[];
+    contacts: { jid: string; name?: string; pushName?: string; profilePicUrl?: string; metadata?: any }[];
+    messages: { messageId: string; chatId: string; fromMe: boolean; fromJid?: string; toJid: string; messageType: string; content: any; timestamp: Date; quotedMessage?: string; metadata?: any }[];
+  }) {
+    const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+    for (const chat of batch.chats) {
+      const { jid, ...data } = chat;
+      operations.push(this.prisma.chat.upsert({
+        where: { sessionId_jid: { sessionId, jid } },
+        update: data,
+        create: { sessionId, ...chat }
+      }));
+    }
+
+    for (const contact of batch.contacts) {
+      const { jid, ...data } = contact;
+      operations.push(this.prisma.contact.upsert({
+        where: { sessionId_jid: { sessionId, jid } },
+        update: data,
+        create: { sessionId, ...contact }
+      }));
+    }
+
+    if (batch.messages.length) {
+      operations.push(this.prisma.message.createMany({
+        data: batch.messages.map(message => ({
+          ...message,
+          sessionId,
+          messageType: message.messageType as any
+        })),
+        skipDuplicates: true
+      }));
+    }
+
+    if (operations.length) {
+      await this.prisma.$transaction(operations);
+    }
+  }
+
+  async getMessages(sessionId: string, chatId?: string, limit = 50, offset = 0, correlationId?: string) {
     return this.prisma.message.findMany({
       where: {
         sessionId,
-        ...(chatId && { chatId })
+        ...(chatId && { chatId }),
+        ...(correlationId && { correlationId })
       },
       orderBy: { timestamp: 'desc' },
       take: limit,
@@ -256,6 +520,26 @@ export class DatabaseService {
     });
   }
 
+  async updateChat(sessionId: string, jid: string, data: {
+    name?: string;
+    isArchived?: boolean;
+    isPinned?: boolean;
+    isMuted?: boolean;
+    unreadCount?: number;
+    metadata?: any;
+  }) {
+    return this.prisma.chat.updateMany({
+      where: { sessionId, jid },
+      data
+    });
+  }
+
+  async deleteChat(sessionId: string, jid: string) {
+    return this.prisma.chat.deleteMany({
+      where: { sessionId, jid }
+    });
+  }
+
   async getChats(sessionId: string) {
     return this.prisma.chat.findMany({
       where: { sessionId },
@@ -292,13 +576,200 @@ export class DatabaseService {
     });
   }
 
+  /**
+   * Apply a partial update, creating the contact if it isn't known yet
+   */
+  async updateContact(sessionId: string, jid: string, data: {
+    name?: string;
+    pushName?: string;
+    profilePicUrl?: string | null;
+    isBlocked?: boolean;
+  }) {
+    return this.prisma.contact.upsert({
+      where: {
+        sessionId_jid: { sessionId, jid }
+      },
+      update: data,
+      create: { sessionId, jid, ...data }
+    });
+  }
+
+  /**
+   * Replace the whole blocklist of a session
+   */
+  async setBlockedContacts(sessionId: string, jids: string[]) {
+    await this.prisma.contact.updateMany({
+      where: { sessionId, isBlocked: true, jid: { notIn: jids } },
+      data: { isBlocked: false }
+    });
+
+    for (const jid of jids) {
+      await this.updateContact(sessionId, jid, { isBlocked: true });
+    }
+  }
+
   async getContacts(sessionId: string) {
     return this.prisma.contact.findMany({
-      where: { sessionId },
+      // numbers found not to be on WhatsApp by a check aren't contacts
+      where: { sessionId, OR: [{ isOnWhatsApp: null }, { isOnWhatsApp: true }] },
       orderBy: { name: 'asc' }
     });
   }
 
+  // Group operations
+  async upsertGroup(data: {
+    sessionId: string;
+    jid: string;
+    subject?: string;
+    description?: string;
+    owner?: string;
+    participants?: any;
+    settings?: any;
+    metadata?: any;
+    isAdmin?: boolean;
+    isCommunity?: boolean;
+    announce?: boolean;
+    size?: number;
+  }) {
+    return this.prisma.group.upsert({
+      where: {
+        sessionId_jid: {
+          sessionId: data.sessionId,
+          jid: data.jid
+        }
+      },
+      update: {
+        subject: data.subject,
+        description: data.description,
+        owner: data.owner,
+        participants: data.participants,
+        settings: data.settings,
+        metadata: data.metadata,
+        isAdmin: data.isAdmin,
+        isCommunity: data.isCommunity,
+        announce: data.announce,
+        size: data.size,
+        updatedAt: new Date()
+      },
+      create: data
+    });
+  }
+
+  async getGroup(sessionId: string, jid: string) {
+    return this.prisma.group.findUnique({
+      where: {
+        sessionId_jid: {
+          sessionId,
+          jid
+        }
+      }
+    });
+  }
+
+  async getGroups(
+    sessionId: string,
+    options: { page?: number; limit?: number; isAdmin?: boolean; isCommunity?: boolean; announce?: boolean; search?: string } = {}
+  ) {
+    const { page = 1, limit = 50, isAdmin, isCommunity, announce, search } = options;
+    const where: Prisma.GroupWhereInput = {
+      sessionId,
+      ...(isAdmin !== undefined && { isAdmin }),
+      ...(isCommunity !== undefined && { isCommunity }),
+      ...(announce !== undefined && { announce }),
+      ...(search && { subject: { contains: search, mode: 'insensitive' } })
+    };
+
+    const [groups, total] = await Promise.all([
+      this.prisma.group.findMany({
+        where,
+        orderBy: { subject: 'asc' },
+        take: limit,
+        skip: (page - 1) * limit
+      }),
+      this.prisma.group.count({ where })
+    ]);
+
+    return { groups, total };
+  }
+
+  async deleteGroups(sessionId: string, jids: string[]) {
+    return this.prisma.group.deleteMany({
+      where: { sessionId, jid: { in: jids } }
+    });
+  }
+
+  /**
+   * Remove the groups the session is no longer part of
+   */
+  async deleteGroupsExcept(sessionId: string, jids: string[]) {
+    return this.prisma.group.deleteMany({
+      where: { sessionId, jid: { notIn: jids } }
+    });
+  }
+
+  // Label operations
+  async upsertLabel(sessionId: string, label: {
+    id: string;
+    name: string;
+    color: number;
+    deleted: boolean;
+    predefinedId?: string;
+  }) {
+    const data = {
+      name: label.name,
+      color: label.color,
+      deleted: label.deleted,
+      predefinedId: label.predefinedId
+    };
+
+    return this.prisma.label.upsert({
+      where: {
+        sessionId_labelId: { sessionId, labelId: label.id }
+      },
+      update: data,
+      create: { sessionId, labelId: label.id, ...data }
+    });
+  }
+
+  async addLabelAssociation(sessionId: string, labelId: string, chatId: string, messageId = '') {
+    return this.prisma.labelAssociation.upsert({
+      where: {
+        sessionId_labelId_chatId_messageId: { sessionId, labelId, chatId, messageId }
+      },
+      update: {},
+      create: { sessionId, labelId, chatId, messageId }
+    });
+  }
+
+  async removeLabelAssociation(sessionId: string, labelId: string, chatId: string, messageId = '') {
+    return this.prisma.labelAssociation.deleteMany({
+      where: { sessionId, labelId, chatId, messageId }
+    });
+  }
+
+  // Call operations
+  async upsertCall(data: {
+    sessionId: string;
+    callId: string;
+    chatId: string;
+    from: string;
+    isVideo: boolean;
+    isGroup: boolean;
+    groupJid?: string;
+    status: string;
+    offline: boolean;
+    timestamp: Date;
+  }) {
+    return this.prisma.call.upsert({
+      where: {
+        sessionId_callId: { sessionId: data.sessionId, callId: data.callId }
+      },
+      // keep when the call started, only the status moves on
+      update: { status: data.status },
+      create: data
+    });
+  }
+
   // Webhook operations
   async createWebhook(data: {
     userId: string;
@@ -312,9 +783,18 @@ export class DatabaseService {
     });
   }
 
-  async getUserWebhooks(userId: string) {
+  async getUserWebhooks(userId: string, includeDisabled = false) {
     return this.prisma.webhook.findMany({
-      where: { userId, isActive: true }
+      where: includeDisabled
+        // deleted webhooks are inactive too, only the ones disabled after failures have disabledAt
+        ? { userId, OR: [{ isActive: true }, { disabledAt: { not: null } }] }
+        : { userId, isActive: true }
+    });
+  }
+
+  async getUserWebhook(id: string, userId: string) {
+    return this.prisma.webhook.findFirst({
+      where: { id, userId, OR: [{ isActive: true }, { disabledAt: { not: null } }] }
     });
   }
 
@@ -328,7 +808,73 @@ export class DatabaseService {
   async deleteWebhook(id: string) {
     return this.prisma.webhook.update({
       where: { id },
-      data: { isActive: false }
+      data: { isActive: false, disabledAt: null }
+    });
+  }
+
+  // Message template operations
+  async createTemplate(data: {
+    userId: string;
+    name: string;
+    description?: string;
+    type: string;
+    content: Prisma.InputJsonValue;
+    options?: Prisma.InputJsonValue;
+    variables: string[];
+  }) {
+    return this.prisma.messageTemplate.create({
+      data
+    });
+  }
+
+  async getUserTemplates(userId: string, options: { page?: number; limit?: number; type?: string; search?: string } = {}) {
+    const { page = 1, limit = 50, type, search } = options;
+    const where: Prisma.MessageTemplateWhereInput = {
+      userId,
+      ...(type && { type }),
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } }
+        ]
+      })
+    };
+
+    const [templates, total] = await Promise.all([
+      this.prisma.messageTemplate.findMany({
+        where,
+        orderBy: { name: 'asc' },
+        take: limit,
+        skip: (page - 1) * limit
+      }),
+      this.prisma.messageTemplate.count({ where })
+    ]);
+
+    return { templates, total };
+  }
+
+  async getUserTemplate(id: string, userId: string) {
+    return this.prisma.messageTemplate.findFirst({
+      where: { id, userId }
+    });
+  }
+
+  async getUserTemplateByName(name: string, userId: string) {
+    return this.prisma.messageTemplate.findUnique({
+      where: { userId_name: { userId, name } }
+    });
+  }
+
+  async updateTemplate(id: string, data: Prisma.MessageTemplateUpdateInput) {
+    return this.prisma.messageTemplate.update({
+      where: { id },
+      data
+    });
+  }
+
+  async deleteTemplate(id: string) {
+    return this.prisma.messageTemplate.delete({
+      where: { id }
     });
   }
 
@@ -0,0 +1,306 @@
+import { MediaAsset, Prisma } from '@prisma/client';
+import NodeCache from '@cacheable/node-cache';
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { CacheStore } from '../Types';
+import { createLogger } from '../utils/apiLogger';
+import { assetIdOf, MEDIA_MESSAGE_TYPES, toVoiceNoteMimetype } from '../Utils/messageContent';
+import { signMediaAccess, verifyMediaAccess } from '../Utils/mediaArchive';
+import { DatabaseService } from './DatabaseService';
+import { createMediaStorage, MediaStorage } from './MediaStorage';
+
+const mediaLogger = createLogger('media');
+
+export interface AddMediaAssetRequest {
+  userId: string;
+  fileName: string;
+  mimetype: string;
+  source?: 'upload' | 'incoming';
+  sessionId?: string;
+  messageId?: string;
+  // the file is refused when its checksum differs, e.g. the fileSha256 WhatsApp gives for a message
+  expectedSha256?: string;
+  retainUntil?: Date;
+}
+
+type StoredUploads = Record<string, { message: string; uploadedAt: string }>;
+
+/**
+ * The mediaCache of the sockets. Baileys keys its entries by media type & the URL the file was read from,
+ * only files of the media storage are kept, under their storage key so the short-lived
+ * URLs handed out for the same file share one entry.
+ */
+class MediaUploadCache implements CacheStore {
+  // the message WhatsApp gave for each upload
+  private cache: NodeCache<Uint8Array>;
+
+  constructor(
+    private readonly storage: MediaStorage,
+    ttlSeconds: number,
+    private readonly onUpload: (mediaType: string, storageKey: string, message: Uint8Array) => void
+  ) {
+    this.cache = new NodeCache({ stdTTL: ttlSeconds, useClones: false });
+  }
+
+  private parseKey(key: string): { mediaType: string; storageKey: string } | undefined {
+    const separator = key.indexOf(':');
+    const storageKey = separator > 0 ? this.storage.keyOf(key.slice(separator + 1)) : undefined;
+
+    return storageKey ? { mediaType: key.slice(0, separator), storageKey } : undefined;
+  }
+
+  get<T>(key: string): T | undefined {
+    const parsed = this.parseKey(key);
+    return parsed ? this.cache.get(`${parsed.mediaType}:${parsed.storageKey}`) as T | undefined : undefined;
+  }
+
+  set<T>(key: string, value: T): void {
+    const parsed = this.parseKey(key);
+    if (!parsed) return;
+
+    const message = value as unknown as Uint8Array;
+    this.cache.set(`${parsed.mediaType}:${parsed.storageKey}`, message);
+    this.onUpload(parsed.mediaType, parsed.storageKey, message);
+  }
+
+  del(key: string): void {
+    const parsed = this.parseKey(key);
+    if (parsed) this.cache.del(`${parsed.mediaType}:${parsed.storageKey}`);
+  }
+
+  flushAll(): void {
+    this.cache.flushAll();
+  }
+
+  has(mediaType: string, storageKey: string): boolean {
+    return this.cache.has(`${mediaType}:${storageKey}`);
+  }
+
+  /** Put back an upload kept in the database, without saving it again */
+  restore(mediaType: string, storageKey: string, message: Buffer): void {
+    this.cache.set(`${mediaType}:${storageKey}`, message);
+  }
+
+  forget(storageKey: string): void {
+    for (const mediaType of MEDIA_MESSAGE_TYPES) {
+      this.cache.del(`${mediaType}:${storageKey}`);
+    }
+  }
+}
+
+const hashFile = async (filePath: string): Promise<{ sha256: string; size: number }> => {
+  const hash = createHash('sha256');
+  let size = 0;
+
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+    size += chunk.length;
+  }
+
+  return { sha256: hash.digest('hex'), size };
+};
+
+/**
+ * Files kept on the server to be sent any number of times. A file is uploaded to WhatsApp
+ * once per media type, the upload is reused by every send until it goes stale.
+ */
+export class MediaLibraryService {
+  private dbService: DatabaseService;
+  private storage: MediaStorage;
+  readonly uploadCache: MediaUploadCache;
+
+  // WhatsApp drops uploaded media after a while, the upload is redone once it's older than this
+  private readonly uploadTtlSeconds = parseInt(process.env.MEDIA_UPLOAD_CACHE_TTL || '86400');
+  private readonly signedUrlTtlSeconds = parseInt(process.env.MEDIA_SIGNED_URL_TTL || '604800');
+  private readonly urlSecret = process.env.MEDIA_URL_SECRET || process.env.JWT_SECRET!;
+
+  constructor() {
+    this.dbService = new DatabaseService();
+    this.storage = createMediaStorage();
+    this.uploadCache = new MediaUploadCache(this.storage, this.uploadTtlSeconds, (mediaType, storageKey, message) => {
+      this.saveUpload(mediaType, storageKey, message).catch((error) => {
+        mediaLogger.error(`Failed to save the upload of ${storageKey}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Add a file to the library. The same upload of a user is only stored once.
+   */
+  async addFile(filePath: string, request: AddMediaAssetRequest): Promise<MediaAsset> {
+    const { userId, fileName, mimetype, source = 'upload', sessionId, messageId, expectedSha256, retainUntil } = request;
+    const { sha256, size } = await hashFile(filePath);
+
+    if (expectedSha256 && expectedSha256 !== sha256) {
+      throw new Error(`Checksum mismatch for ${fileName}`);
+    }
+
+    if (source === 'upload') {
+      const existing = await this.dbService.client.mediaAsset.findFirst({
+        where: { userId, sha256, source: 'upload' }
+      });
+      if (existing) return existing;
+    }
+
+    const storageKey = `${userId}/${randomUUID()}${extname(fileName).toLowerCase()}`;
+    await this.storage.save(storageKey, filePath, mimetype, { retainUntil });
+
+    return this.dbService.client.mediaAsset.create({
+      data: { userId, fileName, mimetype, size, sha256, storageKey, source, sessionId, messageId, retainUntil }
+    });
+  }
+
+  /**
+   * Add a file read from a stream, staged on disk so it can be hashed before it's stored
+   */
+  async addStream(stream: Readable, request: AddMediaAssetRequest): Promise<MediaAsset> {
+    const stagingPath = join(tmpdir(), `media-${randomUUID()}`);
+
+    try {
+      await pipeline(stream, createWriteStream(stagingPath));
+      return await this.addFile(stagingPath, request);
+    } finally {
+      await fs.rm(stagingPath, { force: true });
+    }
+  }
+
+  async getAssets(userId: string, options: { page?: number; limit?: number; mimetype?: string; source?: string } = {}) {
+    const { page = 1, limit = 50, mimetype, source } = options;
+    const where: Prisma.MediaAssetWhereInput = {
+      userId,
+      ...(mimetype && { mimetype: { startsWith: mimetype } }),
+      ...(source && { source })
+    };
+
+    const [assets, total] = await Promise.all([
+      this.dbService.client.mediaAsset.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit
+      }),
+      this.dbService.client.mediaAsset.count({ where })
+    ]);
+
+    return { assets, total };
+  }
+
+  async getAsset(id: string, userId: string): Promise<MediaAsset | null> {
+    return this.dbService.client.mediaAsset.findFirst({
+      where: { id, userId }
+    });
+  }
+
+  /**
+   * The stored copy of the media of an incoming message
+   */
+  async getIncomingAsset(sessionId: string, messageId: string): Promise<MediaAsset | null> {
+    return this.dbService.client.mediaAsset.findFirst({
+      where: { sessionId, messageId, source: 'incoming' }
+    });
+  }
+
+  /**
+   * Look an asset up for a signed URL, the signature stands in for the owner
+   */
+  async getSignedAsset(id: string, expires: number, signature: string): Promise<MediaAsset | null> {
+    if (!verifyMediaAccess(id, expires, signature, this.urlSecret)) return null;
+
+    return this.dbService.client.mediaAsset.findUnique({ where: { id } });
+  }
+
+  /**
+   * URL the asset can be downloaded from without credentials until it expires, e.g. by webhook receivers
+   */
+  getSignedUrl(asset: MediaAsset): { url: string; expiresAt: Date } {
+    const expires = Math.floor(Date.now() / 1000) + this.signedUrlTtlSeconds;
+    const signature = signMediaAccess(asset.id, expires, this.urlSecret);
+    const baseUrl = process.env.API_BASE_URL || 'http://localhost:3001';
+
+    return {
+      url: `${baseUrl}/api/media/files/${asset.id}?expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000)
+    };
+  }
+
+  async openAsset(asset: MediaAsset): Promise<Readable> {
+    return this.storage.read(asset.storageKey);
+  }
+
+  /**
+   * Remove an asset, files under retention are kept
+   */
+  async deleteAsset(asset: MediaAsset): Promise<void> {
+    if (asset.retainUntil && asset.retainUntil > new Date()) {
+      throw new Error(`File is retained until ${asset.retainUntil.toISOString()}`);
+    }
+
+    await this.dbService.client.mediaAsset.delete({ where: { id: asset.id } });
+    this.uploadCache.forget(asset.storageKey);
+    await this.storage.remove(asset.storageKey);
+  }
+
+  /**
+   * Swap the asset:<id> media of a message for the stored files, filling in
+   * the mimetype & file name of the asset when the message doesn't give them
+   */
+  async resolveAssets<T>(userId: string | undefined, content: T): Promise<T> {
+    if (!content || typeof content !== 'object') return content;
+
+    let resolved: any = content;
+    for (const field of [...MEDIA_MESSAGE_TYPES, 'thumbnail']) {
+      const assetId = assetIdOf((content as any)[field]);
+      if (!assetId) continue;
+
+      // without a user, Prisma would drop the filter & match the assets of anyone
+      const asset = userId ? await this.getAsset(assetId, userId) : null;
+      if (!asset) {
+        throw new Error(`Media asset ${assetId} not found`);
+      }
+
+      resolved = { ...resolved, [field]: { url: await this.storage.getSendUrl(asset.storageKey) } };
+      if (field === 'thumbnail') continue;
+
+      this.restoreUpload(field, asset);
+      const mimetype = resolved.mimetype || asset.mimetype;
+      resolved.mimetype = field === 'audio' && resolved.ptt ? toVoiceNoteMimetype(mimetype) : mimetype;
+      if (field === 'document') {
+        resolved.fileName = resolved.fileName || asset.fileName;
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Load the upload saved for the asset into the cache, e.g. after a restart
+   */
+  private restoreUpload(mediaType: string, asset: MediaAsset) {
+    const upload = (asset.uploads as StoredUploads | null)?.[mediaType];
+    if (!upload || this.uploadCache.has(mediaType, asset.storageKey)) return;
+
+    const ageSeconds = (Date.now() - new Date(upload.uploadedAt).getTime()) / 1000;
+    if (ageSeconds < this.uploadTtlSeconds) {
+      this.uploadCache.restore(mediaType, asset.storageKey, Buffer.from(upload.message, 'base64'));
+    }
+  }
+
+  private async saveUpload(mediaType: string, storageKey: string, message: Uint8Array) {
+    const asset = await this.dbService.client.mediaAsset.findUnique({ where: { storageKey } });
+    if (!asset) return;
+
+    const uploads: StoredUploads = {
+      ...(asset.uploads as StoredUploads | null),
+      [mediaType]: { message: Buffer.from(message).toString('base64'), uploadedAt: new Date().toISOString() }
+    };
+
+    await this.dbService.client.mediaAsset.update({
+      where: { storageKey },
+      data: { uploads }
+    });
+  }
+}
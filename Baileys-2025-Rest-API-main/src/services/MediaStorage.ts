@@ -0,0 +1,178 @@
+import { createReadStream, promises as fs } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { Readable } from 'stream';
+
+/**
+ * Where the files of the media library are kept
+ */
+export interface MediaStorage {
+  /** Copy a local file into the store under the key, retainUntil locks it where the store supports it */
+  save(key: string, filePath: string, mimetype: string, options?: { retainUntil?: Date }): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+  /** Location the file is read from when it's sent: a local path or a short-lived URL */
+  getSendUrl(key: string): Promise<string>;
+  /** Key of the file a location handed out by getSendUrl points to, undefined for locations outside the store */
+  keyOf(location: string): string | undefined;
+}
+
+export class LocalMediaStorage implements MediaStorage {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  private pathOf(key: string): string {
+    return join(this.root, key);
+  }
+
+  async save(key: string, filePath: string): Promise<void> {
+    const target = this.pathOf(key);
+    await fs.mkdir(dirname(target), { recursive: true });
+    await fs.copyFile(filePath, target);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const path = this.pathOf(key);
+    // fail here rather than in the middle of the response
+    await fs.access(path);
+    return createReadStream(path);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.pathOf(key), { force: true });
+  }
+
+  async getSendUrl(key: string): Promise<string> {
+    return this.pathOf(key);
+  }
+
+  keyOf(location: string): string | undefined {
+    if (!location.startsWith(this.root + sep)) return undefined;
+    return relative(this.root, location).split(sep).join('/');
+  }
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  // for S3 compatible stores such as MinIO
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  // lock retained files in compliance mode, the bucket must have object lock enabled
+  objectLock?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * Stores the files in an S3 bucket. The AWS SDK is an optional dependency,
+ * only loaded when this storage is used.
+ */
+export class S3MediaStorage implements MediaStorage {
+  private client?: Promise<{ s3: typeof import('@aws-sdk/client-s3'); client: import('@aws-sdk/client-s3').S3Client }>;
+  // Sent files are read right away, the URL only has to outlive the upload to WhatsApp
+  private readonly sendUrlExpiresIn = 15 * 60;
+
+  constructor(private readonly config: S3StorageConfig) {}
+
+  private getClient() {
+    if (!this.client) {
+      this.client = import('@aws-sdk/client-s3').then(s3 => ({
+        s3,
+        client: new s3.S3Client({
+          region: this.config.region,
+          endpoint: this.config.endpoint,
+          forcePathStyle: this.config.forcePathStyle,
+          ...(this.config.accessKeyId && this.config.secretAccessKey && {
+            credentials: {
+              accessKeyId: this.config.accessKeyId,
+              secretAccessKey: this.config.secretAccessKey
+            }
+          })
+        })
+      }));
+    }
+
+    return this.client;
+  }
+
+  async save(key: string, filePath: string, mimetype: string, options: { retainUntil?: Date } = {}): Promise<void> {
+    const { s3, client } = await this.getClient();
+    const { size } = await fs.stat(filePath);
+
+    await client.send(new s3.PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: createReadStream(filePath),
+      ContentLength: size,
+      ContentType: mimetype,
+      ...(this.config.objectLock && options.retainUntil && {
+        ObjectLockMode: 'COMPLIANCE',
+        ObjectLockRetainUntilDate: options.retainUntil
+      })
+    }));
+  }
+
+  async read(key: string): Promise<Readable> {
+    const { s3, client } = await this.getClient();
+    const object = await client.send(new s3.GetObjectCommand({ Bucket: this.config.bucket, Key: key }));
+
+    return object.Body as Readable;
+  }
+
+  async remove(key: string): Promise<void> {
+    const { s3, client } = await this.getClient();
+    await client.send(new s3.DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }));
+  }
+
+  async getSendUrl(key: string): Promise<string> {
+    const { s3, client } = await this.getClient();
+    const { getSignedUrl } = await import('@aws-sdk/s3-request-presigner');
+
+    return getSignedUrl(client, new s3.GetObjectCommand({ Bucket: this.config.bucket, Key: key }), {
+      expiresIn: this.sendUrlExpiresIn
+    });
+  }
+
+  keyOf(location: string): string | undefined {
+    let url: URL;
+    try {
+      url = new URL(location);
+    } catch (error) {
+      return undefined;
+    }
+
+    if (!url.searchParams.has('X-Amz-Signature')) return undefined;
+
+    // virtual hosted style (bucket.host/key) or path style (host/bucket/key)
+    let path: string | undefined;
+    if (url.hostname.startsWith(`${this.config.bucket}.`)) {
+      path = url.pathname.slice(1);
+    } else if (url.pathname.startsWith(`/${this.config.bucket}/`)) {
+      path = url.pathname.slice(this.config.bucket.length + 2);
+    }
+
+    return path ? path.split('/').map(decodeURIComponent).join('/') : undefined;
+  }
+}
+
+/**
+ * Storage picked by MEDIA_STORAGE: local (default) or s3
+ */
+export const createMediaStorage = (): MediaStorage => {
+  if (process.env.MEDIA_STORAGE === 's3') {
+    return new S3MediaStorage({
+      bucket: process.env.S3_BUCKET || 'whatsapp-media',
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      objectLock: process.env.S3_OBJECT_LOCK === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+    });
+  }
+
+  return new LocalMediaStorage(process.env.MEDIA_STORAGE_PATH || './storage/media');
+};
@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client';
+import type { Logger } from 'pino';
+
+/**
+ * Take a lease on a row read by a worker, so no other worker picks it up before leaseMs.
+ * The update must only match the row as it was read, it's claimed when nobody touched it since.
+ */
+export const claimLease = async (
+  leaseMs: number,
+  update: (leaseUntil: Date) => Promise<Prisma.BatchPayload>
+): Promise<boolean> => {
+  const { count } = await update(new Date(Date.now() + leaseMs));
+  return count === 1;
+};
+
+/**
+ * Runs a task on an interval, one run at a time. The tasks claim their rows with claimLease,
+ * so one worker per process is enough & several processes can share the same tables.
+ */
+export class PollingWorker {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly intervalMs: number,
+    private readonly logger: Logger,
+    private readonly task: () => Promise<void>
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    this.logger.info(`${this.name} started`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Run the task right away, e.g. for work that was just queued, unless it's already running
+   */
+  async poll(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.task();
+    } catch (error) {
+      this.logger.error({ error }, `${this.name} failed`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
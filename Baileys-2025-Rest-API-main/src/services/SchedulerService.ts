@@ -0,0 +1,333 @@
+import { Prisma, ScheduledMessage } from '@prisma/client';
+import { DatabaseService } from './DatabaseService';
+import { WhatsAppService } from './WhatsAppService';
+import { claimLease, PollingWorker } from './PollingWorker';
+import { generateMessageIDV2 } from '../index';
+import { createLogger } from '../utils/apiLogger';
+import { buildMessageContent, SendMessageType } from '../Utils/messageContent';
+import { SessionStatus, WebhookEvent } from '../types/api';
+
+const schedulerLogger = createLogger('scheduler');
+
+export interface ScheduleMessageRequest {
+  sessionId: string;
+  to: string;
+  type: SendMessageType;
+  content: any;
+  options?: {
+    mentions?: string[];
+    quoted?: string;
+    viewOnce?: boolean;
+    ephemeralExpiration?: number;
+  };
+  sendAt: Date;
+  correlationId?: string;
+  requestedBy?: string;
+  templateId?: string;
+}
+
+/**
+ * Sends the messages scheduled for later. Jobs live in the database,
+ * so the ones due while the process was down go out as soon as it is back.
+ */
+export class SchedulerService {
+  private dbService: DatabaseService;
+  private whatsAppService: WhatsAppService;
+
+  private readonly pollIntervalMs = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '5000');
+  private readonly batchSize = parseInt(process.env.SCHEDULER_BATCH_SIZE || '50');
+  private readonly maxAttempts = parseInt(process.env.SCHEDULER_MAX_ATTEMPTS || '5');
+  // How late a message may go out while its session is reconnecting, before it is given up on
+  private readonly maxDelayMs = parseInt(process.env.SCHEDULER_MAX_DELAY || '3600') * 1000;
+  private readonly leaseMs = 60 * 1000;
+  private readonly worker = new PollingWorker(
+    'Message scheduler',
+    this.pollIntervalMs,
+    schedulerLogger,
+    () => this.processDueMessages()
+  );
+
+  constructor(whatsAppService: WhatsAppService) {
+    this.dbService = new DatabaseService();
+    this.whatsAppService = whatsAppService;
+  }
+
+  /**
+   * Start polling for due messages
+   */
+  start(): void {
+    this.worker.start();
+  }
+
+  stop(): void {
+    this.worker.stop();
+  }
+
+  async scheduleMessage(request: ScheduleMessageRequest): Promise<ScheduledMessage> {
+    const { sessionId, sendAt, options, ...data } = request;
+
+    return this.dbService.client.scheduledMessage.create({
+      data: {
+        ...data,
+        sessionId,
+        options: options as Prisma.InputJsonValue,
+        sendAt,
+        nextAttempt: sendAt
+      }
+    });
+  }
+
+  async getScheduledMessages(
+    sessionId: string,
+    options: { page?: number; limit?: number; status?: string } = {}
+  ) {
+    const { page = 1, limit = 50, status } = options;
+    const where: Prisma.ScheduledMessageWhereInput = {
+      sessionId,
+      ...(status && { status: status as Prisma.ScheduledMessageWhereInput['status'] })
+    };
+
+    const [messages, total] = await Promise.all([
+      this.dbService.client.scheduledMessage.findMany({
+        where,
+        orderBy: { sendAt: 'asc' },
+        take: limit,
+        skip: (page - 1) * limit
+      }),
+      this.dbService.client.scheduledMessage.count({ where })
+    ]);
+
+    return { messages, total };
+  }
+
+  async getScheduledMessage(sessionId: string, id: string): Promise<ScheduledMessage | null> {
+    return this.dbService.client.scheduledMessage.findFirst({
+      where: { id, sessionId }
+    });
+  }
+
+  /**
+   * Cancel a message that hasn't gone out yet, resolves to null when there is none
+   */
+  async cancelScheduledMessage(sessionId: string, id: string): Promise<ScheduledMessage | null> {
+    const { count } = await this.dbService.client.scheduledMessage.updateMany({
+      where: { id, sessionId, status: 'SCHEDULED' },
+      data: { status: 'CANCELLED' }
+    });
+
+    return count ? this.getScheduledMessage(sessionId, id) : null;
+  }
+
+  /**
+   * Move a pending message to another time. A failed one is scheduled again with a fresh attempt count.
+   * Resolves to null when the message was already sent, cancelled or is being sent.
+   */
+  async rescheduleMessage(sessionId: string, id: string, sendAt: Date): Promise<ScheduledMessage | null> {
+    const { count } = await this.dbService.client.scheduledMessage.updateMany({
+      where: { id, sessionId, status: { in: ['SCHEDULED', 'FAILED'] } },
+      data: {
+        status: 'SCHEDULED',
+        sendAt,
+        nextAttempt: sendAt,
+        attempts: 0,
+        lastError: null
+      }
+    });
+
+    return count ? this.getScheduledMessage(sessionId, id) : null;
+  }
+
+  private async processDueMessages(): Promise<void> {
+    const messages = await this.dbService.client.scheduledMessage.findMany({
+      where: {
+        // SENDING rows past their lease were interrupted, e.g. by a restart
+        status: { in: ['SCHEDULED', 'SENDING'] },
+        nextAttempt: { lte: new Date() }
+      },
+      orderBy: { nextAttempt: 'asc' },
+      take: this.batchSize
+    });
+
+    // One at a time, so a batch for the same session goes out in order
+    for (const message of messages) {
+      if (!(await this.claimMessage(message))) {
+        continue;
+      }
+
+      try {
+        await this.sendScheduledMessage(message);
+      } catch (error) {
+        schedulerLogger.error(`Error sending scheduled message ${message.id}:`, error);
+      }
+    }
+  }
+
+  private async claimMessage(message: ScheduledMessage): Promise<boolean> {
+    return claimLease(this.leaseMs, leaseUntil => this.dbService.client.scheduledMessage.updateMany({
+      where: {
+        id: message.id,
+        status: message.status,
+        updatedAt: message.updatedAt
+      },
+      data: {
+        status: 'SENDING',
+        nextAttempt: leaseUntil
+      }
+    }));
+  }
+
+  private async sendScheduledMessage(message: ScheduledMessage): Promise<void> {
+    const { sessionId } = message;
+
+    // A previous attempt may have sent it before being interrupted
+    if (message.messageId) {
+      const sent = await this.dbService.getMessage(sessionId, message.messageId);
+      if (sent && sent.status !== 'PENDING' && sent.status !== 'FAILED') {
+        await this.handleSendSuccess(message, message.messageId);
+        return;
+      }
+    }
+
+    const session = await this.whatsAppService.getSession(sessionId);
+    if (!session) {
+      await this.handleSendFailure(message, 'Session not found', false);
+      return;
+    }
+
+    if (session.status !== SessionStatus.CONNECTED) {
+      await this.waitForSession(message, session.status);
+      return;
+    }
+
+    const options = (message.options || {}) as NonNullable<ScheduleMessageRequest['options']>;
+    const built = buildMessageContent(message.type as SendMessageType, message.content, message.to, {
+      mentions: options.mentions,
+      viewOnce: options.viewOnce
+    });
+
+    if (!built.content) {
+      await this.handleSendFailure(message, built.errors.map(error => `${error.field}: ${error.message}`).join(', '), false);
+      return;
+    }
+
+    const quoted = options.quoted ? await this.whatsAppService.getStoredMessage(sessionId, options.quoted) : undefined;
+    if (options.quoted && !quoted) {
+      await this.handleSendFailure(message, 'Quoted message not found', false);
+      return;
+    }
+
+    // Stored before sending, an interrupted attempt is then retried under the same id
+    const messageId = message.messageId || generateMessageIDV2(session.socket?.user?.id);
+    if (!message.messageId) {
+      await this.dbService.client.scheduledMessage.update({
+        where: { id: message.id },
+        data: { messageId }
+      });
+    }
+
+    try {
+      const result = await this.whatsAppService.sendMessage(sessionId, message.to, built.content, {
+        quoted,
+        ...(options.ephemeralExpiration !== undefined && { ephemeralExpiration: options.ephemeralExpiration }),
+        messageId
+      }, {
+        source: 'schedule',
+        requestedBy: message.requestedBy || undefined,
+        correlationId: message.correlationId || undefined,
+        requestPayload: { scheduledMessageId: message.id, type: message.type, content: message.content, options: message.options }
+      });
+
+      await this.handleSendSuccess(message, result.key.id);
+    } catch (error) {
+      await this.handleSendFailure(message, error.message, true);
+    }
+  }
+
+  /**
+   * Hold the message until the session is connected again, as long as it isn't too late to send it
+   */
+  private async waitForSession(message: ScheduledMessage, status: SessionStatus): Promise<void> {
+    if (Date.now() - message.sendAt.getTime() > this.maxDelayMs) {
+      await this.handleSendFailure(message, `Session not connected (${status}) ${this.maxDelayMs / 1000}s after the scheduled time`, false);
+      return;
+    }
+
+    await this.dbService.client.scheduledMessage.update({
+      where: { id: message.id },
+      data: {
+        status: 'SCHEDULED',
+        nextAttempt: new Date(Date.now() + this.pollIntervalMs * 6),
+        lastError: `Session not connected (${status})`
+      }
+    });
+  }
+
+  private async handleSendSuccess(message: ScheduledMessage, messageId: string): Promise<void> {
+    const sent = await this.dbService.client.scheduledMessage.update({
+      where: { id: message.id },
+      data: {
+        status: 'SENT',
+        messageId,
+        sentAt: new Date(),
+        attempts: { increment: 1 },
+        lastError: null
+      }
+    });
+
+    schedulerLogger.info({ id: message.id, sessionId: message.sessionId, messageId }, `Scheduled message sent`);
+
+    await this.whatsAppService.dispatchEvent(message.sessionId, 'scheduledMessage', WebhookEvent.SCHEDULED_MESSAGE_SENT, {
+      scheduledMessage: this.toEventPayload(sent)
+    });
+  }
+
+  private async handleSendFailure(message: ScheduledMessage, error: string, retriable: boolean): Promise<void> {
+    const attempts = message.attempts + 1;
+    const willRetry = retriable && attempts < this.maxAttempts;
+
+    const updated = await this.dbService.client.scheduledMessage.update({
+      where: { id: message.id },
+      data: {
+        status: willRetry ? 'SCHEDULED' : 'FAILED',
+        attempts,
+        lastError: error,
+        // the failed id is recorded as FAILED, a retry goes out under a new one
+        messageId: null,
+        ...(willRetry && { nextAttempt: new Date(Date.now() + this.calculateRetryDelay(attempts - 1)) })
+      }
+    });
+
+    schedulerLogger.warn({
+      id: message.id,
+      sessionId: message.sessionId,
+      attempts,
+      error
+    }, willRetry ? `Scheduled message failed, retry scheduled` : `Scheduled message failed`);
+
+    if (!willRetry) {
+      await this.whatsAppService.dispatchEvent(message.sessionId, 'scheduledMessage', WebhookEvent.SCHEDULED_MESSAGE_FAILED, {
+        scheduledMessage: this.toEventPayload(updated)
+      });
+    }
+  }
+
+  private toEventPayload(message: ScheduledMessage) {
+    return {
+      id: message.id,
+      to: message.to,
+      type: message.type,
+      status: message.status,
+      sendAt: message.sendAt,
+      sentAt: message.sentAt,
+      messageId: message.messageId,
+      correlationId: message.correlationId,
+      attempts: message.attempts,
+      error: message.lastError
+    };
+  }
+
+  private calculateRetryDelay(retryCount: number): number {
+    // Exponential backoff: 2^retryCount * 5 seconds, max 5 minutes
+    return Math.min(Math.pow(2, retryCount) * 5000, 5 * 60 * 1000);
+  }
+}
@@ -0,0 +1,210 @@
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { authenticateToken } from '../middleware/auth';
+import { logger } from '../utils/apiLogger';
+import { DatabaseService } from './DatabaseService';
+import { AuthenticatedUser } from '../types/api';
+
+// Event names emitted to Socket.IO clients, see WhatsAppService
+export const SOCKET_EVENTS = [
+  'sessionUpdate',
+  'message',
+  'messageUpdate',
+  'messageDelete',
+  'messageReaction',
+  'messageReceipt',
+  'presenceUpdate',
+  'chatUpdate',
+  'chatDelete',
+  'contactUpdate',
+  'blocklistUpdate',
+  'groupUpdate',
+  'groupParticipantsUpdate',
+  'groupJoinRequest',
+  'call',
+  'labelEdit',
+  'labelAssociation',
+  'historySync',
+  'scheduledMessage',
+  'campaignStatus',
+  'campaignRecipient'
+];
+
+interface SubscriptionRequest {
+  sessionId?: string;
+  events?: string[];
+}
+
+type Ack = (response: { success: boolean; error?: string; data?: any }) => void;
+
+/**
+ * Socket.IO clients authenticate with the same JWT or API key as the REST API,
+ * and only receive the events of the sessions they own, through rooms:
+ * - `user:<userId>` every socket of the user, gets the sessionUpdate of all their sessions
+ * - `session:<sessionId>` every event of a session
+ * - `session:<sessionId>:<event>` a single event type of a session
+ */
+export class SocketService {
+  private io: SocketIOServer;
+  private dbService: DatabaseService;
+
+  constructor(io: SocketIOServer) {
+    this.io = io;
+    this.dbService = new DatabaseService();
+  }
+
+  static userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  // sockets following every session of the user, including the ones created later on
+  static autoSubscribeRoom(userId: string): string {
+    return `user:${userId}:auto`;
+  }
+
+  static sessionRoom(sessionId: string, event?: string): string {
+    return event ? `session:${sessionId}:${event}` : `session:${sessionId}`;
+  }
+
+  /**
+   * Register the handshake authentication & subscription handlers, done once at startup
+   */
+  initialize(): void {
+    this.io.use(async (socket, next) => {
+      try {
+        const { auth, headers, query } = socket.handshake;
+        const token = (auth?.token as string | undefined)?.replace('Bearer ', '') ||
+                      (headers.authorization as string | undefined)?.replace('Bearer ', '') ||
+                      headers['x-api-key'] as string | undefined ||
+                      query.apiKey as string | undefined;
+
+        if (!token) {
+          return next(new Error('Access denied. No token provided.'));
+        }
+
+        const { user, error } = await authenticateToken(token);
+        if (!user) {
+          return next(new Error(error));
+        }
+
+        socket.data.user = user;
+        next();
+      } catch (error) {
+        logger.error('Socket authentication error:', error);
+        next(new Error('Internal server error during authentication.'));
+      }
+    });
+
+    this.io.on('connection', async (socket) => {
+      const user: AuthenticatedUser = socket.data.user;
+      logger.info({ userId: user.id }, `Client connected: ${socket.id}`);
+
+      socket.join(SocketService.userRoom(user.id));
+
+      // Follow every session unless the client opts out to pick them with subscribe
+      if (socket.handshake.auth?.autoSubscribe !== false) {
+        socket.join(SocketService.autoSubscribeRoom(user.id));
+        try {
+          const sessions = await this.dbService.getUserSessions(user.id);
+          socket.join(sessions.map(session => SocketService.sessionRoom(session.sessionId)));
+        } catch (error) {
+          logger.error({ error }, `Failed to subscribe client ${socket.id} to its sessions`);
+        }
+      }
+
+      socket.on('subscribe', async (request: SubscriptionRequest, ack?: Ack) => {
+        await this.handleSubscription(socket, user, request, ack, true);
+      });
+
+      socket.on('unsubscribe', async (request: SubscriptionRequest, ack?: Ack) => {
+        await this.handleSubscription(socket, user, request, ack, false);
+      });
+
+      socket.on('disconnect', () => {
+        logger.info(`Client disconnected: ${socket.id}`);
+      });
+    });
+  }
+
+  private async handleSubscription(
+    socket: Socket,
+    user: AuthenticatedUser,
+    request: SubscriptionRequest,
+    ack: Ack | undefined,
+    subscribe: boolean
+  ): Promise<void> {
+    const reply: Ack = typeof ack === 'function' ? ack : () => undefined;
+
+    try {
+      const { sessionId, events } = request || {};
+      if (!sessionId) {
+        return reply({ success: false, error: 'Session ID is required.' });
+      }
+
+      if (events !== undefined && (!Array.isArray(events) || events.some(event => !SOCKET_EVENTS.includes(event)))) {
+        return reply({ success: false, error: `events must be a list of: ${SOCKET_EVENTS.join(', ')}` });
+      }
+
+      const session = await this.dbService.getSession(sessionId);
+      if (!session || session.userId !== user.id) {
+        return reply({ success: false, error: 'Session not found or access denied.' });
+      }
+
+      const allEventsRoom = SocketService.sessionRoom(sessionId);
+      const eventRooms = (events?.length ? events : SOCKET_EVENTS).map(event => SocketService.sessionRoom(sessionId, event));
+
+      if (subscribe) {
+        socket.join(events?.length ? eventRooms : [allEventsRoom]);
+      } else if (!events?.length) {
+        socket.leave(allEventsRoom);
+        eventRooms.forEach(room => socket.leave(room));
+      } else {
+        // Narrow a full subscription down to the remaining event types
+        if (socket.rooms.has(allEventsRoom)) {
+          socket.leave(allEventsRoom);
+          socket.join(
+            SOCKET_EVENTS
+              .filter(event => !events.includes(event))
+              .map(event => SocketService.sessionRoom(sessionId, event))
+          );
+        }
+
+        eventRooms.forEach(room => socket.leave(room));
+      }
+
+      reply({ success: true, data: { rooms: Array.from(socket.rooms).filter(room => room !== socket.id) } });
+    } catch (error) {
+      logger.error({ error }, `Socket subscription error for ${socket.id}`);
+      reply({ success: false, error: 'Internal server error during subscription.' });
+    }
+  }
+
+  /**
+   * Emit to the clients subscribed to the session, or to this event type of the session.
+   * The session update also reaches every socket of the owner, so clients learn about new sessions.
+   */
+  emitSessionEvent(sessionId: string, event: string, payload: object, userId?: string): void {
+    let target = this.io
+      .to(SocketService.sessionRoom(sessionId))
+      .to(SocketService.sessionRoom(sessionId, event));
+
+    if (userId && event === 'sessionUpdate') {
+      target = target.to(SocketService.userRoom(userId));
+    }
+
+    target.emit(event, payload);
+  }
+
+  /**
+   * Subscribe the auto-subscribed sockets of the owner to a newly created session
+   */
+  addSession(userId: string, sessionId: string): void {
+    this.io.in(SocketService.autoSubscribeRoom(userId)).socketsJoin(SocketService.sessionRoom(sessionId));
+  }
+
+  removeSession(sessionId: string): void {
+    this.io.in(SocketService.sessionRoom(sessionId)).socketsLeave(SocketService.sessionRoom(sessionId));
+    for (const event of SOCKET_EVENTS) {
+      this.io.in(SocketService.sessionRoom(sessionId, event)).socketsLeave(SocketService.sessionRoom(sessionId, event));
+    }
+  }
+}
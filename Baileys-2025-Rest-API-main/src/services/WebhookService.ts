@@ -1,16 +1,40 @@
 import axios, { AxiosResponse } from 'axios';
 import crypto from 'crypto';
+import { Prisma, Webhook } from '@prisma/client';
 import { DatabaseService } from './DatabaseService';
+import { claimLease, PollingWorker } from './PollingWorker';
 import { webhookLogger } from '../utils/apiLogger';
+import { dueDeliveriesWhere, saturatedWebhookIds } from '../Utils/webhookDelivery';
+
+// Per-endpoint in-flight deliveries, shared by every WebhookService instance in the process
+const activeDeliveries: Map<string, number> = new Map();
+
+type DueDelivery = Prisma.WebhookDeliveryGetPayload<{ include: { webhook: true } }>;
 
 export class WebhookService {
   private dbService: DatabaseService;
-  private retryQueue: Map<string, NodeJS.Timeout> = new Map();
+
+  private readonly pollIntervalMs = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '2000');
+  private readonly batchSize = parseInt(process.env.WEBHOOK_BATCH_SIZE || '50');
+  private readonly maxConcurrencyPerEndpoint = parseInt(process.env.WEBHOOK_MAX_CONCURRENCY || '2');
+  private readonly disableAfterFailures = parseInt(process.env.WEBHOOK_DISABLE_AFTER_FAILURES || '50');
+  private readonly timeoutMs = parseInt(process.env.WEBHOOK_TIMEOUT || '10000');
+  private readonly secretRotationGraceMs = parseInt(process.env.WEBHOOK_SECRET_ROTATION_GRACE || '86400') * 1000;
+  private readonly worker = new PollingWorker(
+    'Webhook delivery worker',
+    this.pollIntervalMs,
+    webhookLogger,
+    () => this.processDueDeliveries()
+  );
 
   constructor() {
     this.dbService = new DatabaseService();
   }
 
+  /**
+   * Queue the event for every active webhook of the session owner subscribed to it.
+   * Deliveries are persisted first, so they survive restarts until the worker sends them.
+   */
   async sendWebhook(sessionId: string, event: string, payload: any): Promise<void> {
     try {
       // Get session to find user
@@ -22,203 +46,260 @@ export class WebhookService {
 
       // Get user's webhooks for this event
       const webhooks = await this.dbService.getUserWebhooks(session.userId);
-      const relevantWebhooks = webhooks.filter(webhook => 
+      const relevantWebhooks = webhooks.filter(webhook =>
         webhook.events.includes(event) || webhook.events.includes('*')
       );
 
-      // Send to each webhook
-      for (const webhook of relevantWebhooks) {
-        await this.deliverWebhook(webhook.id, webhook.url, event, payload, webhook.secret);
-      }
+      if (!relevantWebhooks.length) return;
+
+      await this.dbService.client.webhookDelivery.createMany({
+        data: relevantWebhooks.map(webhook => ({
+          webhookId: webhook.id,
+          event,
+          payload,
+          status: 'PENDING' as const,
+          nextRetry: new Date()
+        }))
+      });
+
+      // Deliver right away instead of waiting for the next poll
+      this.worker.poll();
     } catch (error) {
       webhookLogger.error('Error sending webhooks:', error);
     }
   }
 
-  private async deliverWebhook(
-    webhookId: string,
-    url: string,
-    event: string,
-    payload: any,
-    secret?: string
-  ): Promise<void> {
-    try {
-      // Create delivery record
-      const delivery = await this.dbService.client.webhookDelivery.create({
-        data: {
-          webhookId,
-          event,
-          payload,
-          status: 'PENDING'
-        }
-      });
+  /**
+   * Start polling the delivery table
+   */
+  start(): void {
+    this.worker.start();
+  }
 
-      // Prepare webhook payload
-      const webhookPayload = {
-        event,
-        timestamp: new Date().toISOString(),
-        data: payload
-      };
+  stop(): void {
+    this.worker.stop();
+  }
 
-      // Create signature if secret is provided
-      const headers: any = {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Baileys-API-Webhook/1.0'
-      };
+  private async processDueDeliveries(): Promise<void> {
+    const saturated = saturatedWebhookIds(activeDeliveries, this.maxConcurrencyPerEndpoint);
+    const deliveries = await this.dbService.client.webhookDelivery.findMany({
+      where: dueDeliveriesWhere(new Date(), saturated),
+      include: { webhook: true },
+      orderBy: { createdAt: 'asc' },
+      take: this.batchSize
+    });
 
-      if (secret) {
-        const signature = this.createSignature(JSON.stringify(webhookPayload), secret);
-        headers['X-Webhook-Signature'] = signature;
+    for (const delivery of deliveries) {
+      if (!delivery.webhook.isActive) {
+        await this.markDeliveryFailed(delivery.id, 'Webhook is disabled');
+        continue;
       }
 
-      // Send webhook
-      const response = await axios.post(url, webhookPayload, {
-        headers,
-        timeout: parseInt(process.env.WEBHOOK_TIMEOUT || '10000'),
-        validateStatus: (status) => status < 500 // Don't throw on 4xx errors
-      });
+      // Leave it for a later poll if the endpoint got busy with the deliveries before it
+      if ((activeDeliveries.get(delivery.webhookId) || 0) >= this.maxConcurrencyPerEndpoint) {
+        continue;
+      }
 
-      // Update delivery record
-      await this.updateDeliveryStatus(delivery.id, response);
+      if (!(await this.claimDelivery(delivery))) {
+        continue;
+      }
 
-      webhookLogger.info(`Webhook delivered successfully`, {
-        webhookId,
-        url,
-        event,
-        status: response.status,
-        deliveryId: delivery.id
-      });
+      activeDeliveries.set(delivery.webhookId, (activeDeliveries.get(delivery.webhookId) || 0) + 1);
+      this.deliverWebhook(delivery)
+        .catch((error) => {
+          webhookLogger.error('Error delivering webhook:', error);
+        })
+        .finally(() => {
+          const active = (activeDeliveries.get(delivery.webhookId) || 1) - 1;
+          if (active > 0) {
+            activeDeliveries.set(delivery.webhookId, active);
+          } else {
+            activeDeliveries.delete(delivery.webhookId);
+          }
+        });
+    }
+  }
 
-    } catch (error) {
-      webhookLogger.error(`Webhook delivery failed`, {
-        webhookId,
-        url,
-        event,
-        error: error.message
+  private async claimDelivery(delivery: DueDelivery): Promise<boolean> {
+    // Outlasts the request, so a delivery still in flight isn't sent twice
+    return claimLease(this.timeoutMs * 3, leaseUntil => this.dbService.client.webhookDelivery.updateMany({
+      where: {
+        id: delivery.id,
+        status: delivery.status,
+        updatedAt: delivery.updatedAt
+      },
+      data: {
+        status: 'DELIVERING',
+        nextRetry: leaseUntil
+      }
+    }));
+  }
+
+  private async deliverWebhook(delivery: DueDelivery): Promise<void> {
+    const { webhook } = delivery;
+
+    // Prepare webhook payload
+    const webhookPayload = {
+      event: delivery.event,
+      timestamp: delivery.createdAt.toISOString(),
+      deliveryId: delivery.id,
+      data: delivery.payload
+    };
+
+    // Send the exact string that was signed
+    const body = JSON.stringify(webhookPayload);
+    const headers = this.buildHeaders(webhook, body);
+
+    try {
+      const response = await axios.post(webhook.url, body, {
+        headers,
+        timeout: this.timeoutMs,
+        validateStatus: () => true
       });
 
-      // Handle retry logic
-      await this.handleWebhookError(webhookId, url, event, payload, secret, error);
+      if (response.status >= 200 && response.status < 300) {
+        await this.handleDeliverySuccess(delivery, response);
+        return;
+      }
+
+      // Other client errors won't get better by retrying
+      const retriable = response.status >= 500 || response.status === 408 || response.status === 429;
+      await this.handleDeliveryFailure(delivery, `HTTP ${response.status}`, retriable, response);
+    } catch (error) {
+      await this.handleDeliveryFailure(delivery, error.message, true);
     }
   }
 
-  private async updateDeliveryStatus(
-    deliveryId: string,
-    response: AxiosResponse
-  ): Promise<void> {
-    const status = response.status >= 200 && response.status < 300 ? 'SUCCESS' : 'FAILED';
-    
+  private async handleDeliverySuccess(delivery: DueDelivery, response: AxiosResponse): Promise<void> {
     await this.dbService.client.webhookDelivery.update({
-      where: { id: deliveryId },
+      where: { id: delivery.id },
       data: {
-        status: status as any,
-        response: JSON.stringify({
-          status: response.status,
-          statusText: response.statusText,
-          headers: response.headers,
-          data: response.data
-        }),
-        attempts: { increment: 1 }
+        status: 'SUCCESS',
+        response: this.serializeResponse(response),
+        attempts: { increment: 1 },
+        nextRetry: null
       }
     });
+
+    if (delivery.webhook.consecutiveFailures > 0) {
+      await this.dbService.updateWebhook(delivery.webhookId, {
+        consecutiveFailures: 0,
+        lastError: null
+      });
+    }
+
+    webhookLogger.info({
+      webhookId: delivery.webhookId,
+      url: delivery.webhook.url,
+      event: delivery.event,
+      status: response.status,
+      deliveryId: delivery.id
+    }, `Webhook delivered successfully`);
   }
 
-  private async handleWebhookError(
-    webhookId: string,
-    url: string,
-    event: string,
-    payload: any,
-    secret?: string,
-    error?: any
+  private async handleDeliveryFailure(
+    delivery: DueDelivery,
+    error: string,
+    retriable: boolean,
+    response?: AxiosResponse
   ): Promise<void> {
-    try {
-      // Get webhook configuration
-      const webhook = await this.dbService.client.webhook.findUnique({
-        where: { id: webhookId }
-      });
+    const { webhook } = delivery;
+    const attempts = delivery.attempts + 1;
+    // maxRetries counts the attempts after the first one
+    const willRetry = retriable && attempts <= webhook.maxRetries;
+    const retryDelay = this.calculateRetryDelay(attempts - 1);
 
-      if (!webhook) return;
+    await this.dbService.client.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: willRetry ? 'RETRYING' : 'FAILED',
+        response: response ? this.serializeResponse(response) : JSON.stringify({ error }),
+        attempts,
+        nextRetry: willRetry ? new Date(Date.now() + retryDelay) : null
+      }
+    });
 
-      // Update webhook error count
-      await this.dbService.client.webhook.update({
-        where: { id: webhookId },
-        data: {
-          retries: { increment: 1 },
-          lastError: error?.message || 'Unknown error'
-        }
-      });
+    const updatedWebhook = await this.dbService.updateWebhook(webhook.id, {
+      consecutiveFailures: { increment: 1 },
+      lastError: error
+    });
 
-      // Check if we should retry
-      if (webhook.retries < webhook.maxRetries) {
-        const retryDelay = this.calculateRetryDelay(webhook.retries);
-        
-        webhookLogger.info(`Scheduling webhook retry`, {
-          webhookId,
-          url,
-          event,
-          retryCount: webhook.retries + 1,
-          retryDelay
-        });
+    webhookLogger.warn({
+      webhookId: webhook.id,
+      url: webhook.url,
+      event: delivery.event,
+      deliveryId: delivery.id,
+      attempts,
+      error,
+      ...(willRetry && { retryDelay })
+    }, willRetry ? `Webhook delivery failed, retry scheduled` : `Webhook delivery failed`);
+
+    if (updatedWebhook.isActive && updatedWebhook.consecutiveFailures >= this.disableAfterFailures) {
+      await this.dbService.updateWebhook(webhook.id, {
+        isActive: false,
+        disabledAt: new Date()
+      });
 
-        // Schedule retry
-        const timeoutId = setTimeout(() => {
-          this.deliverWebhook(webhookId, url, event, payload, secret);
-          this.retryQueue.delete(webhookId);
-        }, retryDelay);
+      webhookLogger.warn({
+        webhookId: webhook.id,
+        url: webhook.url,
+        consecutiveFailures: updatedWebhook.consecutiveFailures
+      }, `Webhook disabled after repeated failures`);
+    }
+  }
 
-        this.retryQueue.set(webhookId, timeoutId);
+  private async markDeliveryFailed(deliveryId: string, error: string): Promise<void> {
+    await this.dbService.client.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: 'FAILED',
+        response: JSON.stringify({ error }),
+        nextRetry: null
+      }
+    });
+  }
 
-        // Update delivery record with retry info
-        const delivery = await this.dbService.client.webhookDelivery.findFirst({
-          where: { webhookId, event, status: 'PENDING' },
-          orderBy: { createdAt: 'desc' }
-        });
+  private serializeResponse(response: AxiosResponse): string {
+    return JSON.stringify({
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      data: response.data
+    });
+  }
 
-        if (delivery) {
-          await this.dbService.client.webhookDelivery.update({
-            where: { id: delivery.id },
-            data: {
-              status: 'RETRYING',
-              nextRetry: new Date(Date.now() + retryDelay),
-              attempts: { increment: 1 }
-            }
-          });
-        }
-      } else {
-        webhookLogger.warn(`Webhook max retries exceeded`, {
-          webhookId,
-          url,
-          event,
-          maxRetries: webhook.maxRetries
-        });
+  private calculateRetryDelay(retryCount: number): number {
+    // Exponential backoff: 2^retryCount seconds, max 5 minutes
+    const delay = Math.min(Math.pow(2, retryCount) * 1000, 5 * 60 * 1000);
+    // Jitter between 50% and 100% of the delay, so failed deliveries don't retry in lockstep
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+  }
 
-        // Mark delivery as failed
-        const delivery = await this.dbService.client.webhookDelivery.findFirst({
-          where: { webhookId, event, status: { in: ['PENDING', 'RETRYING'] } },
-          orderBy: { createdAt: 'desc' }
-        });
+  private buildHeaders(webhook: Webhook, body: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Baileys-API-Webhook/1.0'
+    };
 
-        if (delivery) {
-          await this.dbService.client.webhookDelivery.update({
-            where: { id: delivery.id },
-            data: {
-              status: 'FAILED',
-              response: JSON.stringify({
-                error: error?.message || 'Max retries exceeded'
-              })
-            }
-          });
-        }
+    if (webhook.secret) {
+      const secrets = [webhook.secret];
+      if (webhook.previousSecret && webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt > new Date()) {
+        secrets.push(webhook.previousSecret);
       }
-    } catch (retryError) {
-      webhookLogger.error('Error handling webhook retry:', retryError);
+
+      headers['X-Webhook-Signature'] = this.createSignatureHeader(body, secrets);
     }
+
+    return headers;
   }
 
-  private calculateRetryDelay(retryCount: number): number {
-    // Exponential backoff: 2^retryCount seconds, max 5 minutes
-    const delay = Math.min(Math.pow(2, retryCount) * 1000, 5 * 60 * 1000);
-    return delay;
+  /**
+   * Signature header in the form `t=<unix seconds>,v1=<hex hmac>`, with one v1 entry per secret.
+   * The timestamp is part of the signed content, so a captured request can't be replayed later on.
+   */
+  private createSignatureHeader(payload: string, secrets: string[], timestamp = Math.floor(Date.now() / 1000)): string {
+    const signatures = secrets.map(secret => `v1=${this.createSignature(`${timestamp}.${payload}`, secret)}`);
+    return [`t=${timestamp}`, ...signatures].join(',');
   }
 
   private createSignature(payload: string, secret: string): string {
@@ -228,12 +309,24 @@ export class WebhookService {
       .digest('hex');
   }
 
-  async verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
-    const expectedSignature = this.createSignature(payload, secret);
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(expectedSignature)
-    );
+  /**
+   * Check a signature header produced by createSignatureHeader,
+   * rejecting it when the timestamp is further than `toleranceSeconds` from now
+   */
+  verifyWebhookSignature(payload: string, header: string, secret: string, toleranceSeconds = 300): boolean {
+    const parts = header.split(',').map(part => part.trim().split('='));
+    const timestamp = parseInt(parts.find(([key]) => key === 't')?.[1] || '');
+    if (isNaN(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const expectedSignature = Buffer.from(this.createSignature(`${timestamp}.${payload}`, secret));
+    return parts
+      .filter(([key]) => key === 'v1')
+      .some(([, signature]) => {
+        const candidate = Buffer.from(signature || '');
+        return candidate.length === expectedSignature.length && crypto.timingSafeEqual(candidate, expectedSignature);
+      });
   }
 
   async testWebhook(webhookId: string): Promise<boolean> {
@@ -255,19 +348,12 @@ export class WebhookService {
         }
       };
 
-      const headers: any = {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Baileys-API-Webhook/1.0'
-      };
+      const body = JSON.stringify(testPayload);
+      const headers = this.buildHeaders(webhook, body);
 
-      if (webhook.secret) {
-        const signature = this.createSignature(JSON.stringify(testPayload), webhook.secret);
-        headers['X-Webhook-Signature'] = signature;
-      }
-
-      const response = await axios.post(webhook.url, testPayload, {
+      const response = await axios.post(webhook.url, body, {
         headers,
-        timeout: parseInt(process.env.WEBHOOK_TIMEOUT || '10000')
+        timeout: this.timeoutMs
       });
 
       webhookLogger.info(`Webhook test successful`, {
@@ -286,50 +372,115 @@ export class WebhookService {
     }
   }
 
-  async getWebhookDeliveries(webhookId: string, limit = 50, offset = 0) {
-    return this.dbService.client.webhookDelivery.findMany({
-      where: { webhookId },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset
+  /**
+   * Delivery log of a webhook, newest first, with the stored endpoint response parsed back
+   */
+  async getWebhookDeliveries(
+    webhookId: string,
+    options: { page?: number; limit?: number; status?: string; event?: string } = {}
+  ) {
+    const { page = 1, limit = 50, status, event } = options;
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      webhookId,
+      ...(status && { status: status as Prisma.WebhookDeliveryWhereInput['status'] }),
+      ...(event && { event })
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.dbService.client.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit
+      }),
+      this.dbService.client.webhookDelivery.count({ where })
+    ]);
+
+    return {
+      deliveries: deliveries.map(delivery => ({
+        ...delivery,
+        response: this.parseResponse(delivery.response)
+      })),
+      total
+    };
+  }
+
+  private parseResponse(response: string | null): any {
+    if (!response) return null;
+
+    try {
+      return JSON.parse(response);
+    } catch (error) {
+      return response;
+    }
+  }
+
+  /**
+   * Queue a copy of a past delivery, the original keeps its own status & response
+   */
+  async replayDelivery(webhookId: string, deliveryId: string) {
+    const delivery = await this.dbService.client.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId }
+    });
+
+    if (!delivery) return null;
+
+    const replay = await this.dbService.client.webhookDelivery.create({
+      data: {
+        webhookId,
+        event: delivery.event,
+        payload: delivery.payload as Prisma.InputJsonValue,
+        status: 'PENDING',
+        nextRetry: new Date()
+      }
+    });
+
+    this.worker.poll();
+
+    return replay;
+  }
+
+  /**
+   * Replace the signing secret. The old one is still sent as a second v1 signature
+   * during the grace period, so receivers can switch over without dropping events.
+   */
+  async rotateSecret(webhookId: string, newSecret?: string) {
+    const webhook = await this.dbService.client.webhook.findUnique({
+      where: { id: webhookId }
+    });
+
+    if (!webhook) {
+      throw new Error('Webhook not found');
+    }
+
+    return this.dbService.updateWebhook(webhookId, {
+      secret: newSecret || crypto.randomBytes(32).toString('hex'),
+      previousSecret: webhook.secret,
+      previousSecretExpiresAt: webhook.secret ? new Date(Date.now() + this.secretRotationGraceMs) : null
     });
   }
 
+  /**
+   * Queue the failed deliveries of a webhook again, starting with a fresh attempt count
+   */
   async retryFailedDeliveries(webhookId: string): Promise<number> {
-    const failedDeliveries = await this.dbService.client.webhookDelivery.findMany({
+    const { count } = await this.dbService.client.webhookDelivery.updateMany({
       where: {
         webhookId,
         status: 'FAILED'
       },
-      include: {
-        webhook: true
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        nextRetry: new Date()
       }
     });
 
-    let retriedCount = 0;
-
-    for (const delivery of failedDeliveries) {
-      if (delivery.webhook.retries < delivery.webhook.maxRetries) {
-        await this.deliverWebhook(
-          webhookId,
-          delivery.webhook.url,
-          delivery.event,
-          delivery.payload,
-          delivery.webhook.secret || undefined
-        );
-        retriedCount++;
-      }
-    }
-
-    return retriedCount;
+    return count;
   }
 
   async cleanup(): Promise<void> {
-    // Clear retry timeouts
-    for (const [webhookId, timeoutId] of this.retryQueue) {
-      clearTimeout(timeoutId);
-    }
-    this.retryQueue.clear();
+    this.stop();
 
     // Clean up old delivery records (older than 30 days)
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
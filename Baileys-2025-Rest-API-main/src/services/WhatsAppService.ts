@@ -1,39 +1,77 @@
 import { Server as SocketIOServer } from 'socket.io';
 import makeWASocket, {
   DisconnectReason,
-  useMultiFileAuthState,
   fetchLatestBaileysVersion,
   makeCacheableSignalKeyStore,
+  downloadMediaMessage,
+  extensionForMediaMessage,
+  extractMessageContent,
+  getContentType,
+  proto,
   AnyMessageContent,
+  MiscMessageGenerationOptions,
+  GroupMetadata,
+  WAMessage,
+  WAMessageKey,
   WASocket,
   BaileysEventMap,
-  ConnectionState
+  ConnectionState,
+  jidNormalizedUser,
+  areJidsSameUser,
+  getBinaryNodeChild,
+  generateMessageIDV2,
+  WAPresence,
+  toNumber
 } from '../index';
 import { Boom } from '@hapi/boom';
+import { chunk } from 'lodash';
 import QRCode from 'qrcode';
+import { rename } from 'fs/promises';
 import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
+import { Readable } from 'stream';
+import { importMultiFileAuthState, usePrismaAuthState } from '../Utils/use-prisma-auth-state';
+import { LRUCache } from '../Utils/lru-cache';
+import { DeliveryStatus, getContentMessageType, toDeliveryStatus } from '../Utils/messageStatus';
+import { mergePresence, MAX_TYPING_MS, typingPresenceFor } from '../Utils/presence';
+import { applyGroupUpdate, applyParticipantsUpdate, describeParticipantAdd, isGroupAdmin, ParticipantAddResult } from '../Utils/groups';
+import { toRecipientJid } from '../Utils/campaign';
+import { MediaArchivePolicy, mediaTypeOfContentType, parseMediaArchivePolicy, retentionFor, shouldArchiveMedia } from '../Utils/mediaArchive';
 import { logger, whatsappLogger } from '../utils/apiLogger';
 import { DatabaseService } from './DatabaseService';
 import { WebhookService } from './WebhookService';
-import { WhatsAppSession, SessionStatus } from '../types/api';
+import { SocketService } from './SocketService';
+import { MediaLibraryService } from './MediaLibraryService';
+import { WhatsAppSession, SessionStatus, WebhookEvent, MessageTracking, PresenceInfo } from '../types/api';
+
+export type SendMessageOptions = MiscMessageGenerationOptions & {
+  /** show the recipient "typing..." (or "recording audio..." before voice notes) for this long first */
+  typingMs?: number;
+};
 
 export class WhatsAppService {
   private sessions: Map<string, WhatsAppSession> = new Map();
-  private io: SocketIOServer;
+  private socketService: SocketService;
   private dbService: DatabaseService;
   private webhookService: WebhookService;
+  private mediaLibrary: MediaLibraryService;
+  // Recently seen message contents, keyed by `${sessionId}:${messageId}`
+  private messageCache: LRUCache;
+  // Last known presence of contacts, keyed by `${sessionId}:${jid}`
+  private presenceCache: LRUCache;
+
+  // How long archived documents sent by customers are kept
+  private readonly documentRetentionYears = parseInt(process.env.MEDIA_DOCUMENT_RETENTION_YEARS || '7');
+  // Participants added to a group at once, & the pause between two batches
+  private readonly groupAddBatchSize = parseInt(process.env.GROUP_ADD_BATCH_SIZE || '50');
+  private readonly groupAddBatchDelayMs = parseInt(process.env.GROUP_ADD_BATCH_DELAY_MS || '3000');
 
-  constructor(io: SocketIOServer) {
-    this.io = io;
+  constructor(io: SocketIOServer, mediaLibrary: MediaLibraryService) {
+    this.socketService = new SocketService(io);
     this.dbService = new DatabaseService();
     this.webhookService = new WebhookService();
-    
-    // Ensure auth directory exists
-    const authDir = join(process.cwd(), 'auth_sessions');
-    if (!existsSync(authDir)) {
-      mkdirSync(authDir, { recursive: true });
-    }
+    this.mediaLibrary = mediaLibrary;
+    this.messageCache = new LRUCache(parseInt(process.env.MESSAGE_CACHE_SIZE || '5000'));
+    this.presenceCache = new LRUCache(parseInt(process.env.PRESENCE_CACHE_SIZE || '10000'));
   }
 
   async createSession(sessionId: string, userId: string, usePairingCode = false): Promise<WhatsAppSession> {
@@ -52,10 +90,12 @@ export class WhatsAppService {
         id: sessionId,
         socket: null,
         status: SessionStatus.CONNECTING,
-        lastSeen: new Date()
+        lastSeen: new Date(),
+        userId
       };
 
       this.sessions.set(sessionId, session);
+      this.socketService.addSession(userId, sessionId);
 
       // Initialize WhatsApp connection
       await this.initializeWhatsAppConnection(sessionId, usePairingCode);
@@ -67,10 +107,118 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Reopen every active session persisted in the database, e.g. after a restart.
+   * Sessions are started with limited concurrency and a delay between each one
+   * so that dozens of numbers don't all hit WhatsApp at the same moment.
+   */
+  async restoreSessions(): Promise<{ restored: string[]; skipped: string[]; failed: string[] }> {
+    const concurrency = Math.max(1, parseInt(process.env.SESSION_RESTORE_CONCURRENCY || '3'));
+    const delayMs = parseInt(process.env.SESSION_RESTORE_DELAY_MS || '2000');
+    const result = { restored: [] as string[], skipped: [] as string[], failed: [] as string[] };
+
+    const dbSessions = await this.dbService.getRestorableSessions();
+    const queue = dbSessions.filter(dbSession => !this.sessions.has(dbSession.sessionId));
+
+    logger.info(`Restoring ${queue.length} persisted WhatsApp sessions`);
+
+    const restoreNext = async (): Promise<void> => {
+      const dbSession = queue.shift();
+      if (!dbSession) return;
+
+      const { sessionId } = dbSession;
+      const hasAuthState = !!dbSession.authData || await this.importFileAuthState(sessionId);
+
+      if (!hasAuthState) {
+        // Nothing to resume from, the session has to be linked again
+        if (dbSession.status !== SessionStatus.DISCONNECTED) {
+          await this.updateSessionInDatabase(sessionId, {
+            status: 'DISCONNECTED',
+            qrCode: null,
+            pairingCode: null
+          });
+        }
+        result.skipped.push(sessionId);
+      } else {
+        try {
+          this.sessions.set(sessionId, {
+            id: sessionId,
+            socket: null,
+            status: SessionStatus.CONNECTING,
+            phoneNumber: dbSession.phoneNumber || undefined,
+            name: dbSession.name || undefined,
+            lastSeen: dbSession.lastSeen || undefined,
+            userId: dbSession.userId,
+            mediaPolicy: parseMediaArchivePolicy(dbSession.mediaPolicy)
+          });
+          this.socketService.addSession(dbSession.userId, sessionId);
+
+          await this.updateSessionInDatabase(sessionId, {
+            status: 'CONNECTING',
+            qrCode: null,
+            pairingCode: null
+          });
+          this.emitSessionUpdate(sessionId);
+
+          await this.initializeWhatsAppConnection(sessionId);
+          result.restored.push(sessionId);
+        } catch (error) {
+          whatsappLogger.error(`Failed to restore session ${sessionId}:`, error);
+          // The session is left in ERROR in the database, it's tried again on the next start
+          this.sessions.get(sessionId)?.socket?.end(undefined);
+          this.sessions.delete(sessionId);
+          this.socketService.removeSession(sessionId);
+          result.failed.push(sessionId);
+        }
+
+        if (queue.length > 0 && delayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+      }
+
+      return restoreNext();
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, () => restoreNext())
+    );
+
+    logger.info({
+      restored: result.restored.length,
+      skipped: result.skipped.length,
+      failed: result.failed.length
+    }, 'Session restore complete');
+
+    return result;
+  }
+
+  /**
+   * Sessions linked before the auth state moved to Postgres still have it in auth_sessions/<id>.
+   * It's imported once, the folder is then renamed so a later logout doesn't bring it back.
+   */
+  private async importFileAuthState(sessionId: string): Promise<boolean> {
+    const folder = join(process.cwd(), 'auth_sessions', sessionId);
+
+    try {
+      if (!await importMultiFileAuthState(sessionId, folder, this.dbService.client)) {
+        return false;
+      }
+    } catch (error) {
+      whatsappLogger.error(`Failed to import the auth state of ${sessionId} from ${folder}:`, error);
+      return false;
+    }
+
+    whatsappLogger.info(`Imported the auth state of ${sessionId} from ${folder}`);
+    await rename(folder, `${folder}.imported`).catch(error => {
+      whatsappLogger.error(`Failed to rename ${folder} after importing it:`, error);
+    });
+
+    return true;
+  }
+
   private async initializeWhatsAppConnection(sessionId: string, usePairingCode = false) {
     try {
-      const authDir = join(process.cwd(), 'auth_sessions', sessionId);
-      const { state, saveCreds } = await useMultiFileAuthState(authDir);
+      const { state, saveCreds } = await usePrismaAuthState(sessionId, this.dbService.client);
       const { version } = await fetchLatestBaileysVersion();
 
       const socket = makeWASocket({
@@ -82,10 +230,12 @@ export class WhatsAppService {
           keys: makeCacheableSignalKeyStore(state.keys, whatsappLogger)
         },
         generateHighQualityLinkPreview: true,
-        getMessage: async (key) => {
-          // Implement message retrieval from database
-          return undefined;
-        }
+        // Ask for the full history on link instead of only the recent messages
+        syncFullHistory: process.env.WA_SYNC_FULL_HISTORY === 'true',
+        // Files of the media library are uploaded once & reused by later sends
+        mediaCache: this.mediaLibrary.uploadCache,
+        getMessage: async (key) => this.getMessageContent(sessionId, key),
+        cachedGroupMetadata: async (jid) => this.getCachedGroupMetadata(sessionId, jid)
       });
 
       const session = this.sessions.get(sessionId)!;
@@ -109,21 +259,88 @@ export class WhatsAppService {
         await this.handleMessagesUpdate(sessionId, messageUpdates);
       });
 
+      socket.ev.on('messages.delete', async (deletion) => {
+        await this.handleMessagesDelete(sessionId, deletion);
+      });
+
+      socket.ev.on('messages.reaction', async (reactions) => {
+        await this.handleMessagesReaction(sessionId, reactions);
+      });
+
+      // Per recipient delivery/read receipts, mostly for groups
+      socket.ev.on('message-receipt.update', async (receipts) => {
+        await this.handleMessageReceiptUpdate(sessionId, receipts);
+      });
+
+      socket.ev.on('messaging-history.set', async (history) => {
+        await this.handleHistorySet(sessionId, history);
+      });
+
+      socket.ev.on('presence.update', async (presence) => {
+        this.cachePresence(sessionId, presence);
+        await this.dispatchEvent(sessionId, 'presenceUpdate', WebhookEvent.PRESENCE_UPDATED, presence);
+      });
+
       // Handle chats
       socket.ev.on('chats.upsert', async (chats) => {
         await this.handleChatsUpsert(sessionId, chats);
       });
 
+      socket.ev.on('chats.update', async (updates) => {
+        await this.handleChatsUpdate(sessionId, updates);
+      });
+
+      socket.ev.on('chats.delete', async (jids) => {
+        await this.handleChatsDelete(sessionId, jids);
+      });
+
       // Handle contacts
       socket.ev.on('contacts.upsert', async (contacts) => {
         await this.handleContactsUpsert(sessionId, contacts);
       });
 
+      socket.ev.on('contacts.update', async (updates) => {
+        await this.handleContactsUpdate(sessionId, updates);
+      });
+
+      socket.ev.on('blocklist.set', async ({ blocklist }) => {
+        await this.handleBlocklistSet(sessionId, blocklist);
+      });
+
+      socket.ev.on('blocklist.update', async (update) => {
+        await this.handleBlocklistUpdate(sessionId, update);
+      });
+
       // Handle groups
       socket.ev.on('groups.upsert', async (groups) => {
         await this.handleGroupsUpsert(sessionId, groups);
       });
 
+      socket.ev.on('groups.update', async (updates) => {
+        await this.handleGroupsUpdate(sessionId, updates);
+      });
+
+      socket.ev.on('group-participants.update', async (update) => {
+        await this.handleGroupParticipantsUpdate(sessionId, update);
+      });
+
+      socket.ev.on('group.join-request', async (request) => {
+        await this.handleGroupJoinRequest(sessionId, request);
+      });
+
+      socket.ev.on('call', async (calls) => {
+        await this.handleCalls(sessionId, calls);
+      });
+
+      // Handle labels (WhatsApp Business)
+      socket.ev.on('labels.edit', async (label) => {
+        await this.handleLabelEdit(sessionId, label);
+      });
+
+      socket.ev.on('labels.association', async (update) => {
+        await this.handleLabelAssociation(sessionId, update);
+      });
+
       // Handle pairing code if requested
       if (usePairingCode && !socket.authState.creds.registered) {
         session.status = SessionStatus.PAIRING_REQUIRED;
@@ -182,6 +399,13 @@ export class WhatsAppService {
         }, 5000);
       } else {
         whatsappLogger.info(`Session ${sessionId} logged out`);
+        // The stored credentials are no longer valid, a new QR scan is required
+        try {
+          await this.dbService.clearAuthState(sessionId);
+        } catch (error) {
+          whatsappLogger.error(`Failed to clear auth state for ${sessionId}:`, error);
+        }
+
         session.status = SessionStatus.DISCONNECTED;
         await this.updateSessionInDatabase(sessionId, { status: 'DISCONNECTED' });
         this.emitSessionUpdate(sessionId);
@@ -216,36 +440,21 @@ export class WhatsAppService {
     const { messages, type } = messageUpdate;
 
     for (const message of messages) {
+      if (message.message) {
+        this.messageCache.set(`${sessionId}:${message.key.id}`, message.message);
+      }
+
       try {
         // Save message to database
         await this.dbService.saveMessage({
-          messageId: message.key.id!,
           sessionId,
-          chatId: message.key.remoteJid!,
-          fromMe: message.key.fromMe || false,
-          fromJid: message.key.participant || message.key.remoteJid,
-          toJid: message.key.remoteJid!,
-          messageType: this.getMessageType(message.message),
-          content: message.message,
-          timestamp: new Date(message.messageTimestamp! * 1000),
-          quotedMessage: message.message?.extendedTextMessage?.contextInfo?.quotedMessage ? 
-            message.message.extendedTextMessage.contextInfo.stanzaId : undefined,
-          metadata: { type, pushName: message.pushName }
+          ...this.toMessageRecord(message, { type })
         });
 
-        // Emit to websocket clients
-        this.io.emit('message', {
-          sessionId,
-          message,
-          type
-        });
+        // archived before the webhook goes out, so it can link to the copy
+        const media = type === 'notify' ? await this.archiveIncomingMedia(sessionId, message) : undefined;
 
-        // Send webhook
-        await this.webhookService.sendWebhook(sessionId, 'message.received', {
-          sessionId,
-          message,
-          type
-        });
+        await this.dispatchEvent(sessionId, 'message', WebhookEvent.MESSAGE_RECEIVED, { message, type, ...(media && { media }) });
 
       } catch (error) {
         whatsappLogger.error(`Failed to handle message for ${sessionId}:`, error);
@@ -258,32 +467,195 @@ export class WhatsAppService {
       try {
         const { key, update: messageUpdate } = update;
         
-        if (messageUpdate.status) {
-          await this.dbService.updateMessageStatus(
-            key.id!,
-            sessionId,
-            messageUpdate.status
-          );
+        const status = toDeliveryStatus(messageUpdate.status);
+        if (status) {
+          // Direct chats report the receipts of the recipient here, groups through message-receipt.update
+          const isReceipt = status === 'DELIVERED' || status === 'READ';
+          await this.trackMessageStatus(sessionId, key.id!, {
+            status,
+            recipient: key.fromMe && isReceipt ? jidNormalizedUser(key.remoteJid!) : undefined
+          });
         }
 
-        // Emit to websocket clients
-        this.io.emit('messageUpdate', {
-          sessionId,
+        // A message revoked by its sender ("delete for everyone")
+        if (messageUpdate.messageStubType === proto.WebMessageInfo.StubType.REVOKE) {
+          await this.dbService.markMessagesDeleted(sessionId, [key.id!]);
+          await this.dispatchEvent(sessionId, 'messageDelete', WebhookEvent.MESSAGE_DELETED, {
+            keys: [key],
+            revoked: true
+          });
+        }
+
+        await this.dispatchEvent(sessionId, 'messageUpdate', WebhookEvent.MESSAGE_UPDATED, {
           key,
           update: messageUpdate
         });
 
-        // Send webhook
-        await this.webhookService.sendWebhook(sessionId, 'message.updated', {
-          sessionId,
+      } catch (error) {
+        whatsappLogger.error(`Failed to handle message update for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async handleMessagesDelete(sessionId: string, deletion: BaileysEventMap['messages.delete']) {
+    try {
+      if ('all' in deletion) {
+        await this.dbService.markChatMessagesDeleted(sessionId, deletion.jid);
+      } else {
+        await this.dbService.markMessagesDeleted(sessionId, deletion.keys.map(key => key.id!));
+      }
+
+      await this.dispatchEvent(sessionId, 'messageDelete', WebhookEvent.MESSAGE_DELETED, {
+        ...deletion,
+        revoked: false
+      });
+    } catch (error) {
+      whatsappLogger.error(`Failed to handle message delete for ${sessionId}:`, error);
+    }
+  }
+
+  private async handleMessagesReaction(sessionId: string, reactions: BaileysEventMap['messages.reaction']) {
+    const ownJid = this.getOwnJid(sessionId);
+
+    for (const { key, reaction } of reactions) {
+      try {
+        const sender = reaction.key?.fromMe
+          ? ownJid
+          : reaction.key?.participant || reaction.key?.remoteJid;
+
+        if (sender) {
+          await this.dbService.updateMessageReaction(sessionId, key.id!, jidNormalizedUser(sender), {
+            text: reaction.text || '',
+            timestamp: toNumber(reaction.senderTimestampMs)
+          });
+        }
+
+        await this.dispatchEvent(sessionId, 'messageReaction', WebhookEvent.MESSAGE_REACTION, {
           key,
-          update: messageUpdate
+          reaction,
+          sender,
+          removed: !reaction.text
         });
+      } catch (error) {
+        whatsappLogger.error(`Failed to handle message reaction for ${sessionId}:`, error);
+      }
+    }
+  }
 
+  private async handleMessageReceiptUpdate(sessionId: string, receipts: BaileysEventMap['message-receipt.update']) {
+    for (const { key, receipt } of receipts) {
+      try {
+        if (receipt.userJid) {
+          await this.dbService.updateMessageReceipt(sessionId, key.id!, receipt.userJid, {
+            ...(receipt.receiptTimestamp && { receiptTimestamp: toNumber(receipt.receiptTimestamp) }),
+            ...(receipt.readTimestamp && { readTimestamp: toNumber(receipt.readTimestamp) }),
+            ...(receipt.playedTimestamp && { playedTimestamp: toNumber(receipt.playedTimestamp) })
+          });
+
+          // One entry per group participant in the timeline
+          const recipient = jidNormalizedUser(receipt.userJid);
+          if (receipt.receiptTimestamp) {
+            await this.trackMessageStatus(sessionId, key.id!, {
+              status: 'DELIVERED',
+              recipient,
+              timestamp: new Date(toNumber(receipt.receiptTimestamp) * 1000)
+            });
+          }
+
+          const readTimestamp = receipt.readTimestamp || receipt.playedTimestamp;
+          if (readTimestamp) {
+            await this.trackMessageStatus(sessionId, key.id!, {
+              status: 'READ',
+              recipient,
+              timestamp: new Date(toNumber(readTimestamp) * 1000)
+            });
+          }
+        }
+
+        await this.dispatchEvent(sessionId, 'messageReceipt', WebhookEvent.MESSAGE_RECEIPT, { key, receipt });
       } catch (error) {
-        whatsappLogger.error(`Failed to handle message update for ${sessionId}:`, error);
+        whatsappLogger.error(`Failed to handle message receipt for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Advance the delivery status of a stored message, and of the campaign recipient it was sent to
+   */
+  private async trackMessageStatus(sessionId: string, messageId: string, event: {
+    status: DeliveryStatus;
+    recipient?: string;
+    timestamp?: Date;
+  }) {
+    const message = await this.dbService.advanceMessageStatus(sessionId, messageId, event);
+
+    // campaign messages carry the campaign ID as correlation ID
+    if (message?.source === 'campaign' && message.correlationId && message.status === event.status) {
+      const updated = await this.dbService.advanceCampaignRecipient(message.correlationId, messageId, event.status, event.timestamp);
+      if (updated) {
+        await this.dispatchEvent(sessionId, 'campaignRecipient', WebhookEvent.CAMPAIGN_RECIPIENT, {
+          campaignId: message.correlationId,
+          jid: message.toJid,
+          messageId,
+          status: event.status
+        });
+      }
+    }
+  }
+
+  /**
+   * History sync batches can hold thousands of items,
+   * so only a summary is forwarded instead of the whole set
+   */
+  private async handleHistorySet(sessionId: string, history: BaileysEventMap['messaging-history.set']) {
+    const batchSize = Math.max(1, parseInt(process.env.HISTORY_SYNC_BATCH_SIZE || '500'));
+    const { chats, contacts, isLatest, progress, syncType } = history;
+    // Stubs (e.g. group notifications) have no content to store
+    const messages = history.messages.filter(message => message.key.id && message.key.remoteJid && message.message);
+    const syncTypeName = syncType !== undefined && syncType !== null
+      ? proto.HistorySync.HistorySyncType[syncType]
+      : undefined;
+
+    let failed = false;
+    for (let offset = 0; offset < Math.max(chats.length, contacts.length, messages.length); offset += batchSize) {
+      try {
+        await this.dbService.saveHistoryBatch(sessionId, {
+          chats: chats.slice(offset, offset + batchSize).map(chat => this.toChatRecord(chat)),
+          contacts: contacts.slice(offset, offset + batchSize).map(contact => this.toContactRecord(contact)),
+          messages: messages.slice(offset, offset + batchSize).map(message => this.toMessageRecord(message, { type: 'history' }))
+        });
+      } catch (error) {
+        // Keep going, a bad batch shouldn't drop the rest of the history
+        failed = true;
+        whatsappLogger.error(`Failed to save history batch for ${sessionId}:`, error);
       }
     }
+
+    const summary = {
+      chats: chats.length,
+      contacts: contacts.length,
+      messages: messages.length,
+      isLatest,
+      progress,
+      syncType: syncTypeName,
+      failed
+    };
+
+    whatsappLogger.info(summary, `History sync batch stored for ${sessionId}`);
+
+    try {
+      const session = await this.dbService.getSession(sessionId);
+      await this.updateSessionInDatabase(sessionId, {
+        metadata: {
+          ...(session?.metadata as object | null),
+          historySync: { ...summary, updatedAt: new Date().toISOString() }
+        }
+      });
+    } catch (error) {
+      whatsappLogger.error(`Failed to save history sync progress for ${sessionId}:`, error);
+    }
+
+    await this.dispatchEvent(sessionId, 'historySync', WebhookEvent.HISTORY_SYNC, summary);
   }
 
   private async handleChatsUpsert(sessionId: string, chats: any[]) {
@@ -291,22 +663,11 @@ export class WhatsAppService {
       try {
         await this.dbService.upsertChat({
           sessionId,
-          jid: chat.id,
-          name: chat.name,
-          isGroup: chat.id.endsWith('@g.us'),
-          isArchived: chat.archived || false,
-          isPinned: chat.pinned || false,
-          isMuted: chat.mute || false,
-          unreadCount: chat.unreadCount || 0,
-          lastMessage: chat.lastMessage,
-          metadata: chat
+          ...this.toChatRecord(chat),
+          lastMessage: chat.lastMessage
         });
 
-        // Emit to websocket clients
-        this.io.emit('chatUpdate', {
-          sessionId,
-          chat
-        });
+        await this.dispatchEvent(sessionId, 'chatUpdate', WebhookEvent.CHAT_UPSERTED, { chat });
 
       } catch (error) {
         whatsappLogger.error(`Failed to handle chat upsert for ${sessionId}:`, error);
@@ -314,24 +675,49 @@ export class WhatsAppService {
     }
   }
 
+  private async handleChatsUpdate(sessionId: string, updates: BaileysEventMap['chats.update']) {
+    for (const update of updates) {
+      try {
+        // conditional is only meant for the event buffer
+        const chat = { ...update };
+        delete chat.conditional;
+
+        await this.dbService.updateChat(sessionId, chat.id!, {
+          ...(chat.name !== undefined && { name: chat.name || undefined }),
+          ...(chat.archived !== undefined && { isArchived: !!chat.archived }),
+          ...(chat.pinned !== undefined && { isPinned: !!chat.pinned }),
+          ...(chat.muteEndTime !== undefined && { isMuted: toNumber(chat.muteEndTime) > Date.now() / 1000 }),
+          ...(chat.unreadCount !== undefined && { unreadCount: chat.unreadCount || 0 })
+        });
+
+        await this.dispatchEvent(sessionId, 'chatUpdate', WebhookEvent.CHAT_UPDATED, { chat });
+      } catch (error) {
+        whatsappLogger.error(`Failed to handle chat update for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async handleChatsDelete(sessionId: string, jids: string[]) {
+    for (const jid of jids) {
+      try {
+        await this.dbService.deleteChat(sessionId, jid);
+        await this.dispatchEvent(sessionId, 'chatDelete', WebhookEvent.CHAT_DELETED, { jid });
+      } catch (error) {
+        whatsappLogger.error(`Failed to handle chat delete for ${sessionId}:`, error);
+      }
+    }
+  }
+
   private async handleContactsUpsert(sessionId: string, contacts: any[]) {
     for (const contact of contacts) {
       try {
         await this.dbService.upsertContact({
           sessionId,
-          jid: contact.id,
-          name: contact.name,
-          pushName: contact.notify,
-          profilePicUrl: contact.imgUrl,
-          isBlocked: contact.blocked || false,
-          metadata: contact
+          ...this.toContactRecord(contact),
+          isBlocked: contact.blocked || false
         });
 
-        // Emit to websocket clients
-        this.io.emit('contactUpdate', {
-          sessionId,
-          contact
-        });
+        await this.dispatchEvent(sessionId, 'contactUpdate', WebhookEvent.CONTACT_UPSERTED, { contact });
 
       } catch (error) {
         whatsappLogger.error(`Failed to handle contact upsert for ${sessionId}:`, error);
@@ -339,49 +725,308 @@ export class WhatsAppService {
     }
   }
 
+  private async handleContactsUpdate(sessionId: string, updates: BaileysEventMap['contacts.update']) {
+    for (const contact of updates) {
+      try {
+        if (contact.id) {
+          await this.dbService.updateContact(sessionId, contact.id, {
+            ...(contact.name !== undefined && { name: contact.name }),
+            ...(contact.notify !== undefined && { pushName: contact.notify }),
+            // 'changed' only says there is a new picture, not where it is
+            ...(contact.imgUrl !== undefined && contact.imgUrl !== 'changed' && { profilePicUrl: contact.imgUrl })
+          });
+        }
+
+        await this.dispatchEvent(sessionId, 'contactUpdate', WebhookEvent.CONTACT_UPDATED, { contact });
+      } catch (error) {
+        whatsappLogger.error(`Failed to handle contact update for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async handleBlocklistSet(sessionId: string, blocklist: string[]) {
+    try {
+      await this.dbService.setBlockedContacts(sessionId, blocklist);
+      await this.dispatchEvent(sessionId, 'blocklistUpdate', WebhookEvent.BLOCKLIST_SET, { blocklist });
+    } catch (error) {
+      whatsappLogger.error(`Failed to handle blocklist for ${sessionId}:`, error);
+    }
+  }
+
+  private async handleBlocklistUpdate(sessionId: string, update: BaileysEventMap['blocklist.update']) {
+    try {
+      for (const jid of update.blocklist) {
+        await this.dbService.updateContact(sessionId, jid, { isBlocked: update.type === 'add' });
+      }
+
+      await this.dispatchEvent(sessionId, 'blocklistUpdate', WebhookEvent.BLOCKLIST_UPDATED, update);
+    } catch (error) {
+      whatsappLogger.error(`Failed to handle blocklist update for ${sessionId}:`, error);
+    }
+  }
+
   private async handleGroupsUpsert(sessionId: string, groups: any[]) {
     for (const group of groups) {
       try {
-        await this.dbService.client.group.upsert({
-          where: {
-            sessionId_jid: {
-              sessionId,
-              jid: group.id
-            }
-          },
-          update: {
-            subject: group.subject,
-            description: group.desc,
-            owner: group.owner,
-            participants: group.participants,
-            settings: group,
-            metadata: group,
-            updatedAt: new Date()
-          },
-          create: {
-            sessionId,
-            jid: group.id,
-            subject: group.subject,
-            description: group.desc,
-            owner: group.owner,
-            participants: group.participants,
-            settings: group,
-            metadata: group
-          }
-        });
+        await this.saveGroupMetadata(sessionId, group);
+
+        await this.dispatchEvent(sessionId, 'groupUpdate', WebhookEvent.GROUP_UPSERTED, { group });
+
+      } catch (error) {
+        whatsappLogger.error(`Failed to handle group upsert for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async handleGroupsUpdate(sessionId: string, updates: BaileysEventMap['groups.update']) {
+    // Keep the cached group metadata in sync, it's used when sending to groups & listing them.
+    // Updates are applied to the cached copy, groups without one are fetched.
+    for (const group of updates) {
+      try {
+        const cached = await this.getCachedGroupMetadata(sessionId, group.id!);
+        if (cached) {
+          await this.saveGroupMetadata(sessionId, applyGroupUpdate(cached, group));
+        } else {
+          await this.refreshGroupMetadata(sessionId, [group.id!]);
+        }
 
-        // Emit to websocket clients
-        this.io.emit('groupUpdate', {
+        await this.dispatchEvent(sessionId, 'groupUpdate', WebhookEvent.GROUP_UPDATED, { group });
+
+      } catch (error) {
+        whatsappLogger.error(`Failed to handle group update for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async handleGroupParticipantsUpdate(sessionId: string, update: BaileysEventMap['group-participants.update']) {
+    try {
+      const socket = this.sessions.get(sessionId)?.socket;
+      const ownJids = [socket?.user?.id, socket?.user?.lid];
+
+      if (update.action === 'remove' && update.participants.some(jid => ownJids.some(own => own && areJidsSameUser(jid, own)))) {
+        // the session left or was removed, the group is no longer one of its groups
+        await this.dbService.deleteGroups(sessionId, [update.id]);
+      } else {
+        const cached = await this.getCachedGroupMetadata(sessionId, update.id);
+        const updated = cached && applyParticipantsUpdate(cached, update);
+        if (updated) {
+          await this.saveGroupMetadata(sessionId, updated);
+        } else {
+          await this.refreshGroupMetadata(sessionId, [update.id]);
+        }
+      }
+
+      await this.dispatchEvent(sessionId, 'groupParticipantsUpdate', WebhookEvent.GROUP_PARTICIPANTS_UPDATED, update);
+    } catch (error) {
+      whatsappLogger.error(`Failed to handle group participants update for ${sessionId}:`, error);
+    }
+  }
+
+  private async handleGroupJoinRequest(sessionId: string, request: BaileysEventMap['group.join-request']) {
+    // The subject tells moderators which group the request is for without another lookup
+    const group = await this.dbService.getGroup(sessionId, request.id).catch(() => null);
+    await this.dispatchEvent(sessionId, 'groupJoinRequest', WebhookEvent.GROUP_JOIN_REQUEST, {
+      ...request,
+      subject: group?.subject
+    });
+  }
+
+  private async handleCalls(sessionId: string, calls: BaileysEventMap['call']) {
+    for (const call of calls) {
+      try {
+        await this.dbService.upsertCall({
           sessionId,
-          group
+          callId: call.id,
+          chatId: call.chatId,
+          from: call.from,
+          isVideo: !!call.isVideo,
+          isGroup: !!call.isGroup,
+          groupJid: call.groupJid,
+          status: call.status,
+          offline: call.offline,
+          timestamp: call.date
         });
 
+        await this.dispatchEvent(sessionId, 'call', WebhookEvent.CALL, { call });
       } catch (error) {
-        whatsappLogger.error(`Failed to handle group upsert for ${sessionId}:`, error);
+        whatsappLogger.error(`Failed to handle call for ${sessionId}:`, error);
       }
     }
   }
 
+  private async handleLabelEdit(sessionId: string, label: BaileysEventMap['labels.edit']) {
+    try {
+      await this.dbService.upsertLabel(sessionId, label);
+      await this.dispatchEvent(sessionId, 'labelEdit', WebhookEvent.LABEL_EDITED, { label });
+    } catch (error) {
+      whatsappLogger.error(`Failed to handle label edit for ${sessionId}:`, error);
+    }
+  }
+
+  private async handleLabelAssociation(sessionId: string, update: BaileysEventMap['labels.association']) {
+    try {
+      const { association, type } = update;
+      const messageId = 'messageId' in association ? association.messageId : '';
+
+      if (type === 'add') {
+        await this.dbService.addLabelAssociation(sessionId, association.labelId, association.chatId, messageId);
+      } else {
+        await this.dbService.removeLabelAssociation(sessionId, association.labelId, association.chatId, messageId);
+      }
+
+      await this.dispatchEvent(sessionId, 'labelAssociation', WebhookEvent.LABEL_ASSOCIATION, update);
+    } catch (error) {
+      whatsappLogger.error(`Failed to handle label association for ${sessionId}:`, error);
+    }
+  }
+
+  private async refreshGroupMetadata(sessionId: string, jids: string[]) {
+    const socket = this.sessions.get(sessionId)?.socket;
+    if (!socket) return;
+
+    for (const jid of jids) {
+      try {
+        const metadata = await socket.groupMetadata(jid);
+        await this.saveGroupMetadata(sessionId, metadata);
+      } catch (error) {
+        whatsappLogger.error(`Failed to refresh group ${jid} for ${sessionId}:`, error);
+      }
+    }
+  }
+
+  private async saveGroupMetadata(sessionId: string, group: GroupMetadata) {
+    const user = this.sessions.get(sessionId)?.socket?.user;
+
+    await this.dbService.upsertGroup({
+      sessionId,
+      jid: group.id,
+      subject: group.subject,
+      description: group.desc,
+      owner: group.owner,
+      participants: group.participants,
+      settings: group,
+      metadata: group,
+      isAdmin: isGroupAdmin(group, [user?.id, user?.lid]),
+      isCommunity: !!group.isCommunity,
+      announce: !!group.announce,
+      size: group.size || group.participants.length
+    });
+  }
+
+  /**
+   * Fetch every group the session is part of and reconcile the stored groups with them,
+   * groups it has left in the meantime are removed
+   */
+  async refreshGroups(sessionId: string): Promise<number> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    const groups = Object.values(await session.socket.groupFetchAllParticipating());
+    for (const group of groups) {
+      await this.saveGroupMetadata(sessionId, group);
+    }
+
+    await this.dbService.deleteGroupsExcept(sessionId, groups.map(group => group.id));
+    return groups.length;
+  }
+
+  private async getCachedGroupMetadata(sessionId: string, jid: string): Promise<GroupMetadata | undefined> {
+    try {
+      const group = await this.dbService.getGroup(sessionId, jid);
+      const metadata = group?.metadata as GroupMetadata | null | undefined;
+      // Only trust rows holding a full metadata snapshot, otherwise let Baileys fetch it
+      return metadata?.participants ? metadata : undefined;
+    } catch (error) {
+      whatsappLogger.error(`Failed to load cached metadata of group ${jid} for ${sessionId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Used by Baileys to resend messages on retry requests & to decrypt poll votes
+   */
+  private async getMessageContent(sessionId: string, key: WAMessageKey): Promise<proto.IMessage | undefined> {
+    const cacheKey = `${sessionId}:${key.id}`;
+    const cached = this.messageCache.get<proto.IMessage>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const message = await this.getStoredMessage(sessionId, key.id!);
+      if (message?.message) {
+        this.messageCache.set(cacheKey, message.message);
+      }
+
+      return message?.message || undefined;
+    } catch (error) {
+      whatsappLogger.error(`Failed to load message ${key.id} for ${sessionId}:`, error);
+      return undefined;
+    }
+  }
+
+  private toMessageRecord(message: WAMessage, metadata: { type: string }) {
+    const contextInfo = message.message?.extendedTextMessage?.contextInfo;
+
+    return {
+      messageId: message.key.id!,
+      chatId: message.key.remoteJid!,
+      fromMe: message.key.fromMe || false,
+      fromJid: message.key.participant || message.key.remoteJid || undefined,
+      toJid: message.key.remoteJid!,
+      messageType: this.getMessageType(message.message),
+      content: message.message,
+      timestamp: new Date(toNumber(message.messageTimestamp) * 1000),
+      quotedMessage: contextInfo?.quotedMessage ? contextInfo.stanzaId || undefined : undefined,
+      metadata: { ...metadata, pushName: message.pushName }
+    };
+  }
+
+  private toChatRecord(chat: any) {
+    // history chats carry their messages, those go to the messages table
+    const metadata = { ...chat };
+    delete metadata.messages;
+
+    return {
+      jid: chat.id,
+      name: chat.name || undefined,
+      isGroup: chat.id.endsWith('@g.us'),
+      isArchived: !!chat.archived,
+      isPinned: !!chat.pinned,
+      isMuted: toNumber(chat.muteEndTime) > Date.now() / 1000,
+      unreadCount: chat.unreadCount || 0,
+      metadata
+    };
+  }
+
+  private toContactRecord(contact: any) {
+    return {
+      jid: contact.id,
+      name: contact.name,
+      pushName: contact.notify,
+      profilePicUrl: contact.imgUrl || undefined,
+      metadata: contact
+    };
+  }
+
+  private getOwnJid(sessionId: string): string | undefined {
+    const user = this.sessions.get(sessionId)?.socket?.user;
+    return user ? jidNormalizedUser(user.id) : undefined;
+  }
+
+  /**
+   * Forward an event to the Socket.IO clients subscribed to the session & to the webhooks subscribed to it,
+   * also used by the services acting on a session such as the scheduler
+   */
+  async dispatchEvent(sessionId: string, socketEvent: string, webhookEvent: WebhookEvent, data: object) {
+    const payload = { sessionId, ...data };
+
+    this.socketService.emitSessionEvent(sessionId, socketEvent, payload, this.sessions.get(sessionId)?.userId);
+    await this.webhookService.sendWebhook(sessionId, webhookEvent, payload);
+  }
+
   private getMessageType(message: any): string {
     if (message?.conversation) return 'TEXT';
     if (message?.extendedTextMessage) return 'TEXT';
@@ -408,14 +1053,15 @@ export class WhatsAppService {
   private emitSessionUpdate(sessionId: string) {
     const session = this.sessions.get(sessionId);
     if (session) {
-      this.io.emit('sessionUpdate', {
-        sessionId,
+      this.dispatchEvent(sessionId, 'sessionUpdate', WebhookEvent.CONNECTION_UPDATED, {
         status: session.status,
         qrCode: session.qrCode,
         pairingCode: session.pairingCode,
         phoneNumber: session.phoneNumber,
         name: session.name,
         lastSeen: session.lastSeen
+      }).catch((error) => {
+        whatsappLogger.error(`Failed to dispatch session update for ${sessionId}:`, error);
       });
     }
   }
@@ -435,6 +1081,7 @@ export class WhatsAppService {
       session.socket.end();
     }
     this.sessions.delete(sessionId);
+    this.socketService.removeSession(sessionId);
     await this.dbService.deleteSession(sessionId);
   }
 
@@ -457,7 +1104,281 @@ export class WhatsAppService {
     return code;
   }
 
-  async sendMessage(sessionId: string, to: string, content: AnyMessageContent): Promise<any> {
+  /**
+   * Rebuild a WAMessage from its stored row so it can be handed back to Baileys
+   */
+  async getStoredMessage(sessionId: string, messageId: string): Promise<WAMessage | undefined> {
+    const row = await this.dbService.getMessage(sessionId, messageId);
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      key: {
+        remoteJid: row.chatId,
+        fromMe: row.fromMe,
+        id: row.messageId,
+        participant: row.chatId.endsWith('@g.us') ? row.fromJid : undefined
+      },
+      message: proto.Message.fromObject(row.content as object),
+      messageTimestamp: Math.floor(row.timestamp.getTime() / 1000),
+      pushName: (row.metadata as any)?.pushName
+    };
+  }
+
+  /**
+   * The media part of a message, undefined for messages without media
+   */
+  private getMessageMedia(message: WAMessage): { contentType: string; media: any; mimetype: string; fileName: string } | undefined {
+    const content = extractMessageContent(message.message);
+    const contentType = content ? getContentType(content) : undefined;
+    const media = contentType ? (content![contentType] as any) : undefined;
+    if (!media || typeof media !== 'object' || !media.mimetype) {
+      return undefined;
+    }
+
+    const extension = extensionForMediaMessage({ [contentType!]: media }).replace(/^\./, '');
+
+    return {
+      contentType: contentType!,
+      media,
+      mimetype: media.mimetype,
+      fileName: media.fileName || `${message.key.id}.${extension}`
+    };
+  }
+
+  private async downloadMedia(sessionId: string, message: WAMessage, socket: WASocket): Promise<Readable> {
+    return downloadMediaMessage(message, 'stream', {}, {
+      logger: whatsappLogger,
+      reuploadRequest: async (msg) => {
+        const updated = await socket.updateMediaMessage(msg);
+        await this.dbService.updateMessageContent(sessionId, message.key.id!, updated.message);
+        return updated;
+      }
+    });
+  }
+
+  /**
+   * Download & store the media of an incoming message when the policy of the session asks for it,
+   * and record the copy on the message row. Resolves to what the message.received webhook tells about it.
+   */
+  private async archiveIncomingMedia(sessionId: string, message: WAMessage) {
+    const session = this.sessions.get(sessionId);
+    const policy = session?.mediaPolicy;
+    if (!session?.socket || !session.userId || !policy?.enabled || message.key.fromMe) return undefined;
+
+    const media = this.getMessageMedia(message);
+    const mediaType = mediaTypeOfContentType(media?.contentType);
+    if (!media || !mediaType) return undefined;
+
+    const size = media.media.fileLength ? toNumber(media.media.fileLength) : undefined;
+    if (!shouldArchiveMedia(policy, { mediaType, size, chatId: message.key.remoteJid! })) return undefined;
+
+    try {
+      // messages can be upserted again, e.g. after a retry
+      let asset = await this.mediaLibrary.getIncomingAsset(sessionId, message.key.id!);
+      if (!asset) {
+        const stream = await this.downloadMedia(sessionId, message, session.socket);
+        asset = await this.mediaLibrary.addStream(stream, {
+          userId: session.userId,
+          fileName: media.fileName,
+          mimetype: media.mimetype,
+          source: 'incoming',
+          sessionId,
+          messageId: message.key.id!,
+          expectedSha256: media.media.fileSha256 ? Buffer.from(media.media.fileSha256).toString('hex') : undefined,
+          retainUntil: retentionFor({
+            mediaType,
+            fromMe: false,
+            receivedAt: new Date(toNumber(message.messageTimestamp) * 1000)
+          }, this.documentRetentionYears)
+        });
+      }
+
+      await this.dbService.updateMessageMedia(sessionId, message.key.id!, {
+        mediaAssetId: asset.id,
+        mediaPath: asset.storageKey,
+        mediaSha256: asset.sha256,
+        mediaSize: asset.size
+      });
+
+      const { url, expiresAt } = this.mediaLibrary.getSignedUrl(asset);
+      return {
+        assetId: asset.id,
+        fileName: asset.fileName,
+        mimetype: asset.mimetype,
+        size: asset.size,
+        sha256: asset.sha256,
+        retainUntil: asset.retainUntil,
+        url,
+        expiresAt
+      };
+    } catch (error) {
+      whatsappLogger.error(`Failed to archive the media of message ${message.key.id} for ${sessionId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Change which incoming media of a session is archived, from the next message on
+   */
+  async setMediaPolicy(sessionId: string, policy: MediaArchivePolicy): Promise<MediaArchivePolicy> {
+    await this.dbService.updateSession(sessionId, { mediaPolicy: policy });
+
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.mediaPolicy = policy;
+    }
+
+    return policy;
+  }
+
+  /**
+   * Download and decrypt the media of a stored message.
+   * An archived copy is served first, otherwise the media is fetched from WhatsApp;
+   * if the CDN link has expired, a re-upload is requested from the phone
+   * and the refreshed media info is saved for later downloads.
+   */
+  async downloadMessageMedia(sessionId: string, messageId: string): Promise<{
+    stream: Readable;
+    mimetype: string;
+    fileName: string;
+  }> {
+    const asset = await this.mediaLibrary.getIncomingAsset(sessionId, messageId);
+    if (asset) {
+      return {
+        stream: await this.mediaLibrary.openAsset(asset),
+        mimetype: asset.mimetype,
+        fileName: asset.fileName
+      };
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    const message = await this.getStoredMessage(sessionId, messageId);
+    if (!message) {
+      throw new Error('Message not found');
+    }
+
+    const media = this.getMessageMedia(message);
+    if (!media) {
+      throw new Error('Message does not contain media');
+    }
+
+    return {
+      stream: await this.downloadMedia(sessionId, message, session.socket),
+      mimetype: media.mimetype,
+      fileName: media.fileName
+    };
+  }
+
+  /**
+   * Ask the phone for messages older than the oldest one stored for the chat.
+   * They arrive later on as an ON_DEMAND history sync and are ingested like any other.
+   * Resolves to null when there is no stored message to page back from.
+   */
+  async fetchMessageHistory(sessionId: string, chatId: string, count: number): Promise<{
+    requestId: string;
+    oldestMessageId: string;
+  } | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    const oldest = await this.getOldestStoredMessage(sessionId, chatId);
+    if (!oldest) {
+      return null;
+    }
+
+    const requestId = await session.socket.fetchMessageHistory(count, oldest.key, oldest.messageTimestamp!);
+    return { requestId, oldestMessageId: oldest.key.id! };
+  }
+
+  private async getOldestStoredMessage(sessionId: string, chatId: string): Promise<WAMessage | undefined> {
+    const row = await this.dbService.getOldestMessage(sessionId, chatId);
+    return row ? this.getStoredMessage(sessionId, row.messageId) : undefined;
+  }
+
+  private cachePresence(sessionId: string, { presences }: BaileysEventMap['presence.update']) {
+    for (const [participant, update] of Object.entries(presences)) {
+      const key = `${sessionId}:${jidNormalizedUser(participant)}`;
+      this.presenceCache.set(key, mergePresence(this.presenceCache.get<PresenceInfo>(key), update));
+    }
+  }
+
+  /**
+   * Last known presence of a contact. WhatsApp only reports the presence of subscribed contacts,
+   * so the contact is subscribed to, and waitMs gives it a chance to answer when nothing is known yet.
+   */
+  async getContactPresence(sessionId: string, jid: string, waitMs = 0): Promise<PresenceInfo | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    const socket = session.socket;
+    const contactJid = jidNormalizedUser(jid);
+    const key = `${sessionId}:${contactJid}`;
+
+    let reported: Promise<void> | undefined;
+    if (waitMs > 0 && !this.presenceCache.get(key)) {
+      reported = new Promise((resolve) => {
+        const listener = ({ presences }: BaileysEventMap['presence.update']) => {
+          if (Object.keys(presences).some(participant => jidNormalizedUser(participant) === contactJid)) {
+            done();
+          }
+        };
+        const done = () => {
+          clearTimeout(timer);
+          socket.ev.off('presence.update', listener);
+          resolve();
+        };
+        const timer = setTimeout(done, waitMs);
+
+        socket.ev.on('presence.update', listener);
+      });
+    }
+
+    await socket.presenceSubscribe(contactJid);
+    await reported;
+
+    return this.presenceCache.get<PresenceInfo>(key);
+  }
+
+  /**
+   * Set the presence of the session: available/unavailable for everyone,
+   * composing/recording/paused in the given chat
+   */
+  async setPresence(sessionId: string, presence: WAPresence, chatId?: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    await session.socket.sendPresenceUpdate(presence, chatId);
+  }
+
+  private async simulateTyping(socket: WASocket, to: string, presence: WAPresence, durationMs: number) {
+    await socket.sendPresenceUpdate(presence, to);
+    await new Promise(resolve => setTimeout(resolve, Math.min(durationMs, MAX_TYPING_MS)));
+    await socket.sendPresenceUpdate('paused', to);
+  }
+
+  /**
+   * Send a message, recorded as PENDING before it goes out
+   * so its delivery can be followed even when the send fails
+   */
+  async sendMessage(
+    sessionId: string,
+    to: string,
+    content: AnyMessageContent,
+    options: SendMessageOptions = {},
+    tracking: MessageTracking = {}
+  ): Promise<any> {
     const session = this.sessions.get(sessionId);
     if (!session?.socket) {
       throw new Error('Session not found or not connected');
@@ -467,7 +1388,260 @@ export class WhatsAppService {
       throw new Error('Session not connected');
     }
 
-    return await session.socket.sendMessage(to, content);
+    // library assets are looked up before anything is recorded, a missing one fails the request
+    content = await this.mediaLibrary.resolveAssets(session.userId, content);
+
+    const { typingMs, ...sendOptions } = options;
+    const messageId = sendOptions.messageId || generateMessageIDV2(session.socket.user?.id);
+    await this.dbService.saveMessage({
+      sessionId,
+      messageId,
+      chatId: to,
+      fromMe: true,
+      toJid: to,
+      messageType: getContentMessageType(content),
+      // filled in with the generated message once Baileys echoes it through messages.upsert
+      content: {},
+      timestamp: new Date(),
+      source: tracking.source || 'api',
+      requestedBy: tracking.requestedBy,
+      correlationId: tracking.correlationId,
+      requestPayload: tracking.requestPayload
+    });
+    await this.dbService.advanceMessageStatus(sessionId, messageId, { status: 'PENDING' });
+
+    try {
+      if (typingMs) {
+        await this.simulateTyping(session.socket, to, typingPresenceFor(content), typingMs);
+      }
+
+      return await session.socket.sendMessage(to, content, { ...sendOptions, messageId });
+    } catch (error) {
+      await this.dbService.advanceMessageStatus(sessionId, messageId, { status: 'FAILED', error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message as a reply quoting a stored message, in the chat of that message
+   */
+  async replyToMessage(
+    sessionId: string,
+    messageId: string,
+    content: AnyMessageContent,
+    options: SendMessageOptions = {},
+    tracking: MessageTracking = {}
+  ): Promise<any> {
+    const quoted = await this.requireStoredMessage(sessionId, messageId);
+    return this.sendMessage(sessionId, quoted.key.remoteJid!, content, { ...options, quoted }, tracking);
+  }
+
+  /**
+   * Replace the text of a text message sent by this session
+   */
+  async editMessage(sessionId: string, messageId: string, text: string, tracking: MessageTracking = {}): Promise<any> {
+    const message = await this.requireStoredMessage(sessionId, messageId);
+    if (!message.key.fromMe) {
+      throw new Error('Only messages sent by this session can be edited');
+    }
+
+    const content = extractMessageContent(message.message);
+    const contentType = content ? getContentType(content) : undefined;
+    if (contentType !== 'conversation' && contentType !== 'extendedTextMessage') {
+      throw new Error('Only text messages can be edited');
+    }
+
+    const editWindowMs = 15 * 60 * 1000;
+    if (Date.now() - toNumber(message.messageTimestamp) * 1000 > editWindowMs) {
+      throw new Error('Messages can only be edited within 15 minutes of being sent');
+    }
+
+    const result = await this.sendMessage(sessionId, message.key.remoteJid!, { text, edit: message.key }, {}, tracking);
+
+    // Keep the stored copy in line with what the recipients see
+    const edited = proto.Message.fromObject(message.message!);
+    if (edited.conversation) {
+      edited.conversation = text;
+    } else if (edited.extendedTextMessage) {
+      edited.extendedTextMessage.text = text;
+    }
+
+    await this.dbService.updateMessageContent(sessionId, messageId, edited.toJSON());
+    this.messageCache.set(`${sessionId}:${messageId}`, edited);
+
+    return result;
+  }
+
+  /**
+   * Delete a message for everyone, other people's messages can only be deleted by group admins
+   */
+  async deleteMessage(sessionId: string, messageId: string, tracking: MessageTracking = {}): Promise<any> {
+    const message = await this.requireStoredMessage(sessionId, messageId);
+    const result = await this.sendMessage(sessionId, message.key.remoteJid!, { delete: message.key }, {}, tracking);
+
+    await this.dbService.markMessagesDeleted(sessionId, [messageId]);
+    return result;
+  }
+
+  async forwardMessage(
+    sessionId: string,
+    messageId: string,
+    recipients: string[],
+    tracking: MessageTracking = {}
+  ): Promise<any[]> {
+    const message = await this.requireStoredMessage(sessionId, messageId);
+
+    const results: any[] = [];
+    for (const to of recipients) {
+      results.push(await this.sendMessage(sessionId, to, { forward: message }, {}, tracking));
+    }
+
+    return results;
+  }
+
+  /**
+   * Join a group through a stored group invite message,
+   * sent by admins to people who can't be added directly
+   */
+  async acceptGroupInviteMessage(sessionId: string, messageId: string): Promise<string> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    const message = await this.requireStoredMessage(sessionId, messageId);
+    const invite = extractMessageContent(message.message)?.groupInviteMessage;
+    if (!invite) {
+      throw new Error('Message is not a group invite');
+    }
+
+    return session.socket.groupAcceptInviteV4(message.key, invite);
+  }
+
+  /**
+   * Add numbers to a group in batches, checking first that they're on WhatsApp.
+   * Numbers whose privacy settings only allow invites get a group invite message instead,
+   * unless sendInvites is off. Every number gets a result, in the order given.
+   */
+  async addGroupParticipants(
+    sessionId: string,
+    groupId: string,
+    numbers: string[],
+    options: { sendInvites?: boolean; inviteText?: string } = {},
+    tracking: MessageTracking = {}
+  ): Promise<ParticipantAddResult[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.socket) {
+      throw new Error('Session not found or not connected');
+    }
+
+    const socket = session.socket;
+    const { sendInvites = true, inviteText = '' } = options;
+    const results = numbers.map((input): ParticipantAddResult => {
+      const jid = toRecipientJid(input);
+      return jid
+        ? { input, jid, status: 'failed', reason: 'WhatsApp did not answer for the number' }
+        : { input, status: 'invalid', reason: 'Invalid phone number' };
+    });
+
+    // the same number given twice is only added once, its other entries share the result
+    const jids = Array.from(new Set(results.filter(result => result.jid).map(result => result.jid!)));
+    const outcomes = new Map<string, Omit<ParticipantAddResult, 'input' | 'jid'>>();
+    let subject: string | undefined;
+
+    for (const [index, batch] of chunk(jids, this.groupAddBatchSize).entries()) {
+      if (index > 0) {
+        // spaced out so large lists don't get the account rate limited
+        await new Promise(resolve => setTimeout(resolve, this.groupAddBatchDelayMs));
+      }
+
+      const lookup = await socket.onWhatsApp(...batch);
+      if (!lookup) {
+        throw new Error('Failed to look up the participants on WhatsApp');
+      }
+
+      // numbers are added under the JID WhatsApp returned for them
+      const registered = new Map<string, string>();
+      for (const jid of batch) {
+        const entry = lookup.find(entry => entry.exists && areJidsSameUser(entry.jid, jid));
+        if (entry) {
+          registered.set(jid, entry.jid);
+        } else {
+          outcomes.set(jid, { status: 'not_on_whatsapp', reason: 'The number is not on WhatsApp' });
+        }
+      }
+
+      const toAdd = Array.from(registered.values());
+      if (!toAdd.length) continue;
+
+      let added: Awaited<ReturnType<WASocket['groupParticipantsUpdate']>>;
+      try {
+        added = await socket.groupParticipantsUpdate(groupId, toAdd, 'add');
+      } catch (error) {
+        // nothing went through yet, e.g. the session isn't an admin of the group
+        if (index === 0) throw error;
+
+        for (const jid of registered.keys()) {
+          outcomes.set(jid, { status: 'failed', reason: error.message });
+        }
+
+        continue;
+      }
+
+      for (const participant of added) {
+        // groups addressed by LID answer with the LID, along with the phone number
+        const phoneNumber = participant.content.attrs.phone_number;
+        const match = Array.from(registered).find(([, found]) => areJidsSameUser(found, participant.jid) || areJidsSameUser(found, phoneNumber));
+        if (!match) continue;
+
+        const [jid, found] = match;
+
+        const { status, reason } = describeParticipantAdd(participant.status);
+        const inviteRequest = getBinaryNodeChild(participant.content, 'add_request');
+
+        if (participant.status === '403' && inviteRequest && sendInvites) {
+          try {
+            if (!subject) {
+              subject = (await this.getCachedGroupMetadata(sessionId, groupId) || await socket.groupMetadata(groupId)).subject;
+            }
+
+            const sent = await this.sendMessage(sessionId, found, {
+              groupInvite: {
+                jid: groupId,
+                inviteCode: inviteRequest.attrs.code,
+                inviteExpiration: parseInt(inviteRequest.attrs.expiration),
+                subject,
+                text: inviteText
+              }
+            }, {}, tracking);
+
+            outcomes.set(jid, {
+              status: 'invited',
+              code: participant.status,
+              reason: `${reason}, an invite message was sent`,
+              inviteMessageId: sent?.key?.id
+            });
+          } catch (error) {
+            outcomes.set(jid, { status, code: participant.status, reason: `${reason}, sending the invite message failed: ${error.message}` });
+          }
+        } else {
+          outcomes.set(jid, { status, code: participant.status, reason });
+        }
+      }
+    }
+
+    return results.map(result => (
+      result.jid && outcomes.has(result.jid) ? { input: result.input, jid: result.jid, ...outcomes.get(result.jid)! } : result
+    ));
+  }
+
+  private async requireStoredMessage(sessionId: string, messageId: string): Promise<WAMessage> {
+    const message = await this.getStoredMessage(sessionId, messageId);
+    if (!message?.message) {
+      throw new Error('Message not found');
+    }
+
+    return message;
   }
 
   async shutdown(): Promise<void> {